@@ -82,6 +82,15 @@ CREATE TABLE IF NOT EXISTS alert_event (
   message TEXT,
   is_read INTEGER NOT NULL DEFAULT 0,
   created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+  -- Forward performance (filled by the cron, see GET /alerts/:ruleId/performance)
+  ref_close REAL,              -- Close of the bar the alert fired in
+  change_1 REAL,               -- % change of close 1 / 5 / 20 bars later
+  change_5 REAL,
+  change_20 REAL,
+  max_adverse REAL,            -- Largest % move against the expected direction within 20 bars
+  direction INTEGER,           -- Expected direction: 1 up, -1 down, 0 none
+  performance_done INTEGER NOT NULL DEFAULT 0,
+  performance_updated_at INTEGER,
   -- Deprecated field (kept for backward compatibility)
   rsi REAL,                     -- Deprecated: use indicator_value
   FOREIGN KEY (rule_id) REFERENCES alert_rule(id) ON DELETE CASCADE
@@ -92,7 +101,7 @@ CREATE TABLE IF NOT EXISTS indicator_data (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   symbol TEXT NOT NULL,
   timeframe TEXT NOT NULL,
-  indicator TEXT NOT NULL DEFAULT 'rsi',  -- Type of indicator
+  indicator TEXT NOT NULL DEFAULT 'rsi',  -- Series id: indicator:period[:params JSON], e.g. rsi:14
   timestamp INTEGER NOT NULL,
   value REAL NOT NULL,                    -- Indicator value
   close REAL NOT NULL,
@@ -180,6 +189,8 @@ CREATE INDEX IF NOT EXISTS idx_alert_event_rule_id ON alert_event(rule_id);
 CREATE INDEX IF NOT EXISTS idx_alert_event_user_id ON alert_event(user_id);
 CREATE INDEX IF NOT EXISTS idx_alert_event_ts ON alert_event(ts);
 CREATE INDEX IF NOT EXISTS idx_alert_event_is_read ON alert_event(is_read);
+CREATE INDEX IF NOT EXISTS idx_alert_event_performance ON alert_event(performance_done, performance_updated_at);
+CREATE INDEX IF NOT EXISTS idx_alert_event_indicator ON alert_event(indicator);
 
 CREATE INDEX IF NOT EXISTS idx_indicator_data_symbol_timeframe ON indicator_data(symbol, timeframe);
 CREATE INDEX IF NOT EXISTS idx_indicator_data_indicator ON indicator_data(indicator);
@@ -1,6 +1,7 @@
 import type { Context } from 'hono';
 import type { Env } from '../index';
 import { Logger } from '../logger';
+import { INDICATOR_IDS, getIndicator } from '../indicator-registry';
 
 interface UserStats {
     total: number;
@@ -20,24 +21,10 @@ interface DeviceStats {
 interface AlertStats {
     total: number;
     active: number;
-    byIndicator: {
-        rsi: number;
-        stoch: number;
-        williams: number;
-        [key: string]: number;
-    };
-    byIndicatorCustom: {
-        rsi: number;
-        stoch: number;
-        williams: number;
-        [key: string]: number;
-    };
-    byIndicatorWatchlist: {
-        rsi: number;
-        stoch: number;
-        williams: number;
-        [key: string]: number;
-    };
+    // Registry indicator id -> active rules
+    byIndicator: Record<string, number>;
+    byIndicatorCustom: Record<string, number>;
+    byIndicatorWatchlist: Record<string, number>;
 }
 
 interface AdminStats {
@@ -136,6 +123,19 @@ async function getDeviceStats(db: D1Database): Promise<DeviceStats> {
     };
 }
 
+/**
+ * Сгруппировать количество правил по индикаторам реестра (алиасы клиента, например wpr, -> id реестра)
+ */
+function countByIndicator(rows: Array<{ indicator: string; count: number }>): Record<string, number> {
+    const counts: Record<string, number> = Object.fromEntries(INDICATOR_IDS.map(id => [id, 0]));
+    for (const row of rows) {
+        const indicator = row.indicator?.toLowerCase() || 'rsi';
+        const normalizedIndicator = getIndicator(indicator)?.id ?? indicator;
+        counts[normalizedIndicator] = (counts[normalizedIndicator] || 0) + (row.count || 0);
+    }
+    return counts;
+}
+
 /**
  * Получить статистику алертов
  */
@@ -156,17 +156,7 @@ async function getAlertStats(db: D1Database): Promise<AlertStats> {
         GROUP BY indicator
     `).all<{ indicator: string; count: number }>();
 
-    const byIndicator: { rsi: number; stoch: number; williams: number; [key: string]: number } = {
-        rsi: 0,
-        stoch: 0,
-        williams: 0,
-    };
-
-    for (const row of indicatorStats.results || []) {
-        const indicator = row.indicator?.toLowerCase() || 'rsi';
-        const normalizedIndicator = indicator === 'wpr' ? 'williams' : indicator;
-        byIndicator[normalizedIndicator] = (byIndicator[normalizedIndicator] || 0) + (row.count || 0);
-    }
+    const byIndicator = countByIndicator(indicatorStats.results || []);
 
     // Статистика по индикаторам для кастомных алертов (без WATCHLIST)
     const customIndicatorStats = await db.prepare(`
@@ -177,17 +167,7 @@ async function getAlertStats(db: D1Database): Promise<AlertStats> {
         GROUP BY indicator
     `).all<{ indicator: string; count: number }>();
 
-    const byIndicatorCustom: { rsi: number; stoch: number; williams: number; [key: string]: number } = {
-        rsi: 0,
-        stoch: 0,
-        williams: 0,
-    };
-
-    for (const row of customIndicatorStats.results || []) {
-        const indicator = row.indicator?.toLowerCase() || 'rsi';
-        const normalizedIndicator = indicator === 'wpr' ? 'williams' : indicator;
-        byIndicatorCustom[normalizedIndicator] = (byIndicatorCustom[normalizedIndicator] || 0) + (row.count || 0);
-    }
+    const byIndicatorCustom = countByIndicator(customIndicatorStats.results || []);
 
     // Статистика по индикаторам для watchlist алертов (с WATCHLIST)
     const watchlistIndicatorStats = await db.prepare(`
@@ -198,17 +178,7 @@ async function getAlertStats(db: D1Database): Promise<AlertStats> {
         GROUP BY indicator
     `).all<{ indicator: string; count: number }>();
 
-    const byIndicatorWatchlist: { rsi: number; stoch: number; williams: number; [key: string]: number } = {
-        rsi: 0,
-        stoch: 0,
-        williams: 0,
-    };
-
-    for (const row of watchlistIndicatorStats.results || []) {
-        const indicator = row.indicator?.toLowerCase() || 'rsi';
-        const normalizedIndicator = indicator === 'wpr' ? 'williams' : indicator;
-        byIndicatorWatchlist[normalizedIndicator] = (byIndicatorWatchlist[normalizedIndicator] || 0) + (row.count || 0);
-    }
+    const byIndicatorWatchlist = countByIndicator(watchlistIndicatorStats.results || []);
 
     return {
         total: totalResult?.count || 0,
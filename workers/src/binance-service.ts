@@ -1,5 +1,8 @@
 import type { CandleData, QuoteData, SymbolInfo } from './yahoo-service';
 
+// Binance limit: max 1000 candles per klines request
+export const BINANCE_MAX_CANDLES = 1000;
+
 /**
  * BinanceService: Fetches market data from Binance API
  * 
@@ -41,8 +44,7 @@ export class BinanceService {
             params.append('symbol', symbol);
             params.append('interval', interval);
             
-            // Binance limit: max 1000 candles per request
-            const limit = options.limit ? Math.min(options.limit, 1000) : 500;
+            const limit = options.limit ? Math.min(options.limit, BINANCE_MAX_CANDLES) : 500;
             params.append('limit', limit.toString());
 
             // If since is provided, calculate startTime
@@ -183,6 +185,7 @@ export class BinanceService {
                 type: 'crypto',
                 currency: symbolInfo.quoteAsset,
                 exchange: 'Binance',
+                timezone: 'UTC',  // 24/7 market: sessions follow the UTC day
             };
         } catch (error) {
             console.error(`Error fetching Binance symbol info for ${symbol}:`, error);
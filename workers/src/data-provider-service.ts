@@ -1,5 +1,5 @@
 import { YahooService, type CandleData, type QuoteData, type SymbolInfo } from './yahoo-service';
-import { BinanceService } from './binance-service';
+import { BinanceService, BINANCE_MAX_CANDLES } from './binance-service';
 import { SymbolMapper } from './symbol-mapper';
 
 // D1Database type (from Cloudflare Workers)
@@ -57,12 +57,16 @@ export class DataProviderService {
         options: {
             since?: number;
             limit?: number;
+            skipCache?: boolean;  // Fetch even if cached (e.g. cached set is shorter than needed); result is re-cached
+            readOnly?: boolean;   // Neither read nor write the cache (one-off history reads, e.g. backtests)
         } = {}
     ): Promise<{ candles: CandleData[]; provider: DataProvider }> {
         // Check cache first (always uses Yahoo format as key)
-        const cached = await this.getCachedCandles(symbol, timeframe);
-        if (cached) {
-            return { candles: cached.candles, provider: cached.provider };
+        if (!options.skipCache && !options.readOnly) {
+            const cached = await this.getCachedCandles(symbol, timeframe);
+            if (cached) {
+                return { candles: cached.candles, provider: cached.provider };
+            }
         }
 
         // Determine if crypto
@@ -79,7 +83,9 @@ export class DataProviderService {
                     const candles = await this.binanceService.getCandles(binanceSymbol, timeframe, options);
                     
                     // Cache with provider info
-                    await this.setCachedCandles(symbol, timeframe, candles, 'binance');
+                    if (!options.readOnly) {
+                        await this.setCachedCandles(symbol, timeframe, candles, 'binance');
+                    }
                     
                     return { candles, provider: 'binance' };
                 } catch (error) {
@@ -95,7 +101,9 @@ export class DataProviderService {
             const candles = await this.yahooService.getCandles(symbol, timeframe, options);
             
             // Cache with provider info
-            await this.setCachedCandles(symbol, timeframe, candles, 'yahoo');
+            if (!options.readOnly) {
+                await this.setCachedCandles(symbol, timeframe, candles, 'yahoo');
+            }
             
             return { candles, provider: 'yahoo' };
         } catch (error) {
@@ -104,6 +112,40 @@ export class DataProviderService {
         }
     }
 
+    /**
+     * Approximate number of bars the provider returns for symbol/timeframe at most.
+     * Yahoo serves a fixed 5-day window for minute timeframes (a weekend may fall inside it, so ~3 sessions of
+     * 6.5h for stocks, e.g. ~78 15m bars) and up to 730 days (~500 sessions) otherwise. Crypto trades around the clock, forex ~24h;
+     * crypto candles come from Binance in a single request, capped at BINANCE_MAX_CANDLES.
+     */
+    getMaxHistoryBars(symbol: string, timeframe: string): number {
+        const isCrypto = SymbolMapper.isCrypto(symbol);
+        const days = this.getTimeframeMinutes(timeframe) < 60 ? (isCrypto ? 5 : 3) : (isCrypto ? 730 : 500);
+        const bars = Math.floor(days * this.getBarsPerDay(symbol, timeframe));
+        return isCrypto ? Math.min(bars, BINANCE_MAX_CANDLES) : bars;
+    }
+
+    /**
+     * Approximate number of bars from `from` until now, counted like getMaxHistoryBars: stocks and forex
+     * trade ~5 of 7 calendar days (stocks one 6.5h session a day), crypto every day around the clock
+     */
+    getHistoryBarsSince(symbol: string, timeframe: string, from: number): number {
+        const calendarDays = Math.max(0, Date.now() - from) / (24 * 60 * 60 * 1000);
+        const tradingDays = SymbolMapper.isCrypto(symbol) ? calendarDays : calendarDays * 5 / 7;
+        return Math.ceil(tradingDays * this.getBarsPerDay(symbol, timeframe));
+    }
+
+    private getTimeframeMinutes(timeframe: string): number {
+        const timeframeMinutes: Record<string, number> = { '1m': 1, '5m': 5, '15m': 15, '30m': 30, '1h': 60, '4h': 240, '1d': 1440 };
+        return timeframeMinutes[timeframe] ?? 60;
+    }
+
+    /** Bars per trading day: one 390-minute session for stocks, 24h for crypto and forex, at least one daily bar */
+    private getBarsPerDay(symbol: string, timeframe: string): number {
+        const minutesPerDay = SymbolMapper.isCrypto(symbol) || symbol.includes('=X') ? 1440 : 390;
+        return Math.max(1, minutesPerDay / this.getTimeframeMinutes(timeframe));
+    }
+
     /**
      * Get quote with automatic provider selection
      */
@@ -215,8 +215,9 @@ export class FcmService {
     /**
      * Send alert via FCM V1 API
      * Only sends if notification is recent (not older than maxAgeMinutes)
+     * Returns true if the alert was delivered to at least one device
      */
-    async sendAlert(trigger: any, maxAgeMinutes: number = 10): Promise<void> {
+    async sendAlert(trigger: any, maxAgeMinutes: number = 10): Promise<boolean> {
         try {
             // Check if notification is still relevant (not too old)
             const now = Date.now();
@@ -225,7 +226,7 @@ export class FcmService {
 
             if (triggerAge > maxAgeMs) {
                 console.log(`Skipping stale notification for rule ${trigger.ruleId}: age=${Math.round(triggerAge / 1000)}s (max=${maxAgeMinutes * 60}s)`);
-                return;
+                return false;
             }
 
             // Get user FCM tokens
@@ -233,32 +234,38 @@ export class FcmService {
 
             if (tokens.length === 0) {
                 console.log(`No FCM tokens found for user ${trigger.userId}`);
-                return;
+                return false;
             }
 
             // Send to each device
+            let deliveredCount = 0;
             for (const token of tokens) {
-                await this.sendToDevice(token, trigger);
+                if (await this.sendToDevice(token, trigger)) {
+                    deliveredCount++;
+                }
             }
 
-            console.log(`Alert sent to ${tokens.length} devices for user ${trigger.userId} (age=${Math.round(triggerAge / 1000)}s)`);
+            console.log(`Alert sent to ${deliveredCount}/${tokens.length} devices for user ${trigger.userId} (age=${Math.round(triggerAge / 1000)}s)`);
+            return deliveredCount > 0;
         } catch (error) {
             console.error('Error sending FCM alert:', error);
+            return false;
         }
     }
 
     /**
      * Send message to device using FCM V1 API
+     * Returns true if FCM accepted the message
      */
-    async sendToDevice(token: string, trigger: any): Promise<void> {
+    async sendToDevice(token: string, trigger: any): Promise<boolean> {
         if (!this.projectId || this.projectId.trim() === '') {
             console.error('FCM_PROJECT_ID is empty or not set!');
-            return;
+            return false;
         }
 
         if (!token || token.trim() === '') {
             console.error('FCM token is empty!');
-            return;
+            return false;
         }
 
         const accessToken = await this.getAccessToken();
@@ -287,6 +294,17 @@ export class FcmService {
                     timeframe: trigger.timeframe || '',
                     source: trigger.source || 'custom',
                     isWatchlistAlert: isWatchlistAlert ? 'true' : 'false',
+                    // Composite rules: value of each condition per timeframe (JSON array)
+                    ...(trigger.conditionValues ? { condition_values: JSON.stringify(trigger.conditionValues) } : {}),
+                    // Line values at trigger (e.g. %K and %D for crossover alerts, JSON object)
+                    ...(trigger.lines ? { lines: JSON.stringify(trigger.lines) } : {}),
+                    // Candlestick patterns found on the closed bar (comma-separated)
+                    ...(trigger.patterns ? { patterns: trigger.patterns.join(',') } : {}),
+                    // Divergence: both pivot timestamps so the app can draw divergence lines
+                    ...(trigger.divergence ? {
+                        pivot_start_ts: trigger.divergence.startTs.toString(),
+                        pivot_end_ts: trigger.divergence.endTs.toString(),
+                    } : {}),
                 },
                 android: {
                     priority: 'high',
@@ -335,10 +353,10 @@ export class FcmService {
                     if (!retryResponse.ok) {
                         const retryErrorText = await retryResponse.text();
                         console.error(`FCM V1 retry error: ${retryResponse.status} - ${retryErrorText}`);
-                    } else {
-                        console.log(`FCM V1 message sent successfully after token refresh`);
+                        return false;
                     }
-                    return;
+                    console.log(`FCM V1 message sent successfully after token refresh`);
+                    return true;
                 }
 
                 // If token is invalid (404), remove it
@@ -352,11 +370,13 @@ export class FcmService {
                         // Ignore parse errors
                     }
                 }
-            } else {
-                console.log(`FCM V1 message sent successfully to ${token.substring(0, 10)}...`);
+                return false;
             }
+            console.log(`FCM V1 message sent successfully to ${token.substring(0, 10)}...`);
+            return true;
         } catch (error) {
             console.error('Error sending FCM V1 message:', error);
+            return false;
         }
     }
 
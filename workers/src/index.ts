@@ -1,6 +1,19 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
-import { IndicatorEngine } from './rsi-engine';
+import { IndicatorEngine, getSeriesKey, FORWARD_RETURN_BARS, type RuleCondition, type RuleExpression } from './rsi-engine';
+import {
+    INDICATOR_IDS,
+    VOLUME_INDICATORS,
+    WATCHLIST_INDICATORS,
+    describeIndicators,
+    getDefaultPeriod,
+    getIndicator,
+    getLevelRange,
+    getValidModes,
+    isLevelFreeMode,
+    validateIndicatorParams,
+    validateIndicatorTimeframe,
+} from './indicator-registry';
 import { FcmService } from './fcm-service';
 import { YahooService } from './yahoo-service';
 import { BinanceService } from './binance-service';
@@ -113,6 +126,42 @@ async function ensureTables(db: D1Database, env?: any) {
         }
     }
 
+    // Migration: Add repeatable column (0 = one-shot alert, deactivated after first delivered trigger)
+    try {
+        await db.prepare(`ALTER TABLE alert_rule ADD COLUMN repeatable INTEGER DEFAULT 1`).run();
+    } catch (e: any) {
+        if (!e.message?.includes('duplicate column')) {
+            Logger.warn('Migration: repeatable column may already exist', env);
+        }
+    }
+
+    // Migration: Add conditions column (JSON rule expression for composite rules)
+    try {
+        await db.prepare(`ALTER TABLE alert_rule ADD COLUMN conditions TEXT`).run();
+    } catch (e: any) {
+        if (!e.message?.includes('duplicate column')) {
+            Logger.warn('Migration: conditions column may already exist', env);
+        }
+    }
+
+    // Migration: Add filter_condition column (JSON condition that must hold for the rule to fire, e.g. ADX < 25)
+    try {
+        await db.prepare(`ALTER TABLE alert_rule ADD COLUMN filter_condition TEXT`).run();
+    } catch (e: any) {
+        if (!e.message?.includes('duplicate column')) {
+            Logger.warn('Migration: filter_condition column may already exist', env);
+        }
+    }
+
+    // Migration: Add hysteresis column (re-arm distance for level crossings)
+    try {
+        await db.prepare(`ALTER TABLE alert_rule ADD COLUMN hysteresis REAL DEFAULT 0.5`).run();
+    } catch (e: any) {
+        if (!e.message?.includes('duplicate column')) {
+            Logger.warn('Migration: hysteresis column may already exist', env);
+        }
+    }
+
     // Migration: Copy rsi_period to period for existing records
     await db.prepare(`
       UPDATE alert_rule 
@@ -165,6 +214,15 @@ async function ensureTables(db: D1Database, env?: any) {
       )
     `).run();
 
+    // Migration: Add indicator_params column (JSON, e.g. Supertrend multiplier / PSAR step)
+    try {
+        await db.prepare(`ALTER TABLE watchlist_alert_settings ADD COLUMN indicator_params TEXT`).run();
+    } catch (e: any) {
+        if (!e.message?.includes('duplicate column')) {
+            Logger.warn('Migration: watchlist indicator_params column may already exist', env);
+        }
+    }
+
     await db.prepare(`
       CREATE TABLE IF NOT EXISTS alert_state (
         rule_id INTEGER PRIMARY KEY,
@@ -206,6 +264,48 @@ async function ensureTables(db: D1Database, env?: any) {
         }
     }
 
+    // Migration: Add hysteresis arming flags
+    try {
+        await db.prepare(`ALTER TABLE alert_state ADD COLUMN was_above_upper INTEGER`).run();
+    } catch (e: any) {
+        if (!e.message?.includes('duplicate column')) {
+            Logger.warn('Migration: was_above_upper column may already exist', env);
+        }
+    }
+
+    try {
+        await db.prepare(`ALTER TABLE alert_state ADD COLUMN was_below_lower INTEGER`).run();
+    } catch (e: any) {
+        if (!e.message?.includes('duplicate column')) {
+            Logger.warn('Migration: was_below_lower column may already exist', env);
+        }
+    }
+
+    // Migration: Add deactivation reason (e.g. 'triggered' for one-shot alerts)
+    try {
+        await db.prepare(`ALTER TABLE alert_state ADD COLUMN deactivated_reason TEXT`).run();
+    } catch (e: any) {
+        if (!e.message?.includes('duplicate column')) {
+            Logger.warn('Migration: deactivated_reason column may already exist', env);
+        }
+    }
+
+    try {
+        await db.prepare(`ALTER TABLE alert_state ADD COLUMN deactivated_at INTEGER`).run();
+    } catch (e: any) {
+        if (!e.message?.includes('duplicate column')) {
+            Logger.warn('Migration: deactivated_at column may already exist', env);
+        }
+    }
+
+    try {
+        await db.prepare(`ALTER TABLE alert_state ADD COLUMN last_divergence_ts INTEGER`).run();
+    } catch (e: any) {
+        if (!e.message?.includes('duplicate column')) {
+            Logger.warn('Migration: last_divergence_ts column may already exist', env);
+        }
+    }
+
     // Migration: Copy last_rsi to last_indicator_value for existing records
     await db.prepare(`
       UPDATE alert_state 
@@ -267,6 +367,32 @@ async function ensureTables(db: D1Database, env?: any) {
       WHERE indicator_value IS NULL AND rsi IS NOT NULL
     `).run();
 
+    // Migration: forward performance of events, filled by the cron (IndicatorEngine.updateEventPerformance)
+    const performanceColumns = [
+        'ref_close REAL',
+        ...FORWARD_RETURN_BARS.map(bars => `change_${bars} REAL`),
+        'max_adverse REAL',
+        'direction INTEGER',
+        'performance_done INTEGER NOT NULL DEFAULT 0',
+        'performance_updated_at INTEGER',
+    ];
+    for (const column of performanceColumns) {
+        try {
+            await db.prepare(`ALTER TABLE alert_event ADD COLUMN ${column}`).run();
+        } catch (e: any) {
+            if (!e.message?.includes('duplicate column')) {
+                Logger.warn(`Migration: ${column.split(' ')[0]} column may already exist`, env);
+            }
+        }
+    }
+
+    try {
+        await db.prepare(`CREATE INDEX IF NOT EXISTS idx_alert_event_performance ON alert_event(performance_done, performance_updated_at)`).run();
+        await db.prepare(`CREATE INDEX IF NOT EXISTS idx_alert_event_indicator ON alert_event(indicator)`).run();
+    } catch (e: any) {
+        // Indexes may already exist, ignore
+    }
+
     // Create candles cache table (replaces KV for candles cache - much cheaper)
     await db.prepare(`
       CREATE TABLE IF NOT EXISTS candles_cache (
@@ -303,6 +429,30 @@ async function ensureTables(db: D1Database, env?: any) {
         // Indexes may already exist, ignore
     }
 
+    // Closed-bar indicator values stored by the cron (GET /indicators/series); indicator = series id (see getSeriesKey)
+    await db.prepare(`
+      CREATE TABLE IF NOT EXISTS indicator_data (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        symbol TEXT NOT NULL,
+        timeframe TEXT NOT NULL,
+        indicator TEXT NOT NULL DEFAULT 'rsi',
+        timestamp INTEGER NOT NULL,
+        value REAL NOT NULL,
+        close REAL NOT NULL,
+        state TEXT,
+        created_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now')),
+        UNIQUE(symbol, timeframe, indicator, timestamp)
+      )
+    `).run();
+
+    try {
+        await db.prepare(`CREATE INDEX IF NOT EXISTS idx_indicator_data_symbol_timeframe ON indicator_data(symbol, timeframe)`).run();
+        await db.prepare(`CREATE INDEX IF NOT EXISTS idx_indicator_data_indicator ON indicator_data(indicator)`).run();
+        await db.prepare(`CREATE INDEX IF NOT EXISTS idx_indicator_data_timestamp ON indicator_data(timestamp)`).run();
+    } catch (e: any) {
+        // Indexes may already exist, ignore
+    }
+
     // Create error log table
     await db.prepare(`
       CREATE TABLE IF NOT EXISTS error_log (
@@ -347,6 +497,474 @@ async function updateDeviceActivity(db: D1Database, userId: string) {
     }
 }
 
+/**
+ * Validate levels array [lower, upper] with null for disabled levels
+ * Returns enabled levels or error message
+ */
+function validateLevels(levels: any, indicator: string): { levels: number[] } | { error: string } {
+    if (!Array.isArray(levels) || levels.length === 0 || levels.length > 2) {
+        return { error: 'Invalid levels: must be array of 1-2 elements [lower, upper] with null for disabled' };
+    }
+    const range = getLevelRange(indicator);
+
+    // Filter out null values and validate
+    const validLevels: number[] = [];
+    for (let i = 0; i < levels.length; i++) {
+        const level = levels[i];
+        if (level === null || level === undefined) {
+            continue; // Skip null/undefined (disabled level)
+        }
+        if (typeof level !== 'number' || !isFinite(level)) {
+            return { error: `Invalid level at index ${i}: must be a finite number or null` };
+        }
+        if (range && (level < range.min || level > range.max)) {
+            return {
+                error: `Invalid level at index ${i}: must be number between ${range.min} and ${range.max}${range.note ? ` (${range.note})` : ''} or null`
+            };
+        }
+        validLevels.push(level);
+    }
+
+    if (validLevels.length === 0) {
+        return { error: 'At least one level must be enabled (not null)' };
+    }
+
+    return { levels: validLevels };
+}
+
+/**
+ * Volume indicators need volume data; forex pairs (Yahoo "=X" symbols) always report zero volume
+ * Returns error message or null
+ */
+function validateVolumeSupport(symbol: string, indicators: string[]): string | null {
+    const volumeIndicator = indicators.find(indicator => VOLUME_INDICATORS.includes(indicator));
+    if (volumeIndicator && symbol.toUpperCase().endsWith('=X')) {
+        return `Invalid indicator: ${volumeIndicator.toUpperCase()} needs volume data, which is not reported for forex symbol ${symbol.toUpperCase()}`;
+    }
+    return null;
+}
+
+/**
+ * Validate watchlist indicatorParams (only Supertrend / PSAR take params; stoch uses stochDPeriod)
+ * Returns error message or null
+ */
+function validateWatchlistParams(indicator: string, params: any): string | null {
+    if (params === undefined || params === null) {
+        return null;
+    }
+    if (typeof params !== 'object' || !getValidModes(indicator).includes('trend_flip')) {
+        return 'Invalid indicatorParams: only supported as an object for supertrend and psar';
+    }
+    return validateIndicatorParams(indicator, 'trend_flip', params);
+}
+
+const CONDITION_OPERATORS = ['above', 'below', 'crosses_above', 'crosses_below'];
+const MAX_CONDITIONS = 5;
+const MAX_WITHIN_BARS = 50;
+const CONDITION_TIMEFRAMES = ['1m', '5m', '15m', '1h', '4h', '1d'];
+// Backtest history limit: provider bars of the rule timeframe from `from` to now (stocks: session bars)
+const MAX_BACKTEST_BARS = 5000;
+
+/**
+ * Validate single condition { indicator, period?, params?, line?, operator, value | compareLine, timeframe? }
+ * Used by composite rule conditions and rule filters. Returns normalized condition or error message
+ */
+function validateCondition(condition: any): { condition: RuleCondition } | { error: string } {
+    if (!condition || typeof condition !== 'object') {
+        return { error: 'must be an object' };
+    }
+    if (!INDICATOR_IDS.includes(condition.indicator)) {
+        return { error: `indicator must be one of ${INDICATOR_IDS.join(', ')}` };
+    }
+    const period = condition.period ?? getDefaultPeriod(condition.indicator);
+    if (!Number.isInteger(period) || period < 1 || period > 100) {
+        return { error: 'period must be between 1 and 100' };
+    }
+    if (condition.params !== undefined && (typeof condition.params !== 'object' || condition.params === null)) {
+        return { error: 'params must be an object' };
+    }
+    const paramsError = validateIndicatorParams(condition.indicator, 'cross', condition.params);
+    if (paramsError) {
+        return { error: paramsError };
+    }
+    if (!CONDITION_OPERATORS.includes(condition.operator)) {
+        return { error: `operator must be one of ${CONDITION_OPERATORS.join(', ')}` };
+    }
+    if (condition.line !== undefined && typeof condition.line !== 'string') {
+        return { error: 'line must be a string' };
+    }
+    const hasValue = typeof condition.value === 'number' && isFinite(condition.value);
+    const hasCompareLine = typeof condition.compareLine === 'string' && condition.compareLine.length > 0;
+    if (hasValue === hasCompareLine) {
+        return { error: 'exactly one of value (finite number) or compareLine must be set' };
+    }
+    if (condition.timeframe !== undefined && !CONDITION_TIMEFRAMES.includes(condition.timeframe)) {
+        return { error: `timeframe must be one of ${CONDITION_TIMEFRAMES.join(', ')}` };
+    }
+    if (condition.timeframe !== undefined) {
+        const timeframeError = validateIndicatorTimeframe(condition.indicator, condition.timeframe, condition.params);
+        if (timeframeError) {
+            return { error: timeframeError };
+        }
+    }
+
+    return {
+        condition: {
+            indicator: condition.indicator,
+            period,
+            params: condition.params,
+            line: condition.line,
+            operator: condition.operator,
+            value: hasValue ? condition.value : undefined,
+            compareLine: hasCompareLine ? condition.compareLine : undefined,
+            timeframe: condition.timeframe,
+        }
+    };
+}
+
+/**
+ * Validate composite rule expression { combinator, withinBars?, conditions: [...] }
+ * Returns normalized expression or error message
+ */
+function validateConditions(expression: any): { expression: RuleExpression } | { error: string } {
+    if (!expression || typeof expression !== 'object' || Array.isArray(expression)) {
+        return { error: 'Invalid conditions: must be an object { combinator, withinBars?, conditions }' };
+    }
+    const combinator = expression.combinator || 'and';
+    if (combinator !== 'and' && combinator !== 'or') {
+        return { error: 'Invalid conditions.combinator: must be one of and, or' };
+    }
+    const withinBars = expression.withinBars ?? 1;
+    if (!Number.isInteger(withinBars) || withinBars < 1 || withinBars > MAX_WITHIN_BARS) {
+        return { error: `Invalid conditions.withinBars: must be between 1 and ${MAX_WITHIN_BARS}` };
+    }
+    if (!Array.isArray(expression.conditions) || expression.conditions.length === 0 || expression.conditions.length > MAX_CONDITIONS) {
+        return { error: `Invalid conditions.conditions: must be array of 1-${MAX_CONDITIONS} conditions` };
+    }
+
+    const conditions: RuleCondition[] = [];
+    for (let i = 0; i < expression.conditions.length; i++) {
+        const conditionResult = validateCondition(expression.conditions[i]);
+        if ('error' in conditionResult) {
+            return { error: `Invalid condition at index ${i}: ${conditionResult.error}` };
+        }
+        conditions.push(conditionResult.condition);
+    }
+
+    return { expression: { combinator, withinBars, conditions } };
+}
+
+/**
+ * Validate hysteresis (re-arm distance in indicator units)
+ */
+function isValidHysteresis(hysteresis: any): boolean {
+    return typeof hysteresis === 'number' && isFinite(hysteresis) && hysteresis >= 0;
+}
+
+/**
+ * Default hysteresis: 0.5 for bounded oscillators, 0 for price-unit indicators (0.5 would never re-arm on e.g. EURUSD)
+ */
+function getDefaultHysteresis(indicator: string): number {
+    return getLevelRange(indicator) ? 0.5 : 0;
+}
+
+/**
+ * Validated alert rule fields (body of /alerts/create, also replayed by /alerts/backtest)
+ */
+interface RuleBody {
+    symbol: string;
+    timeframe: string;
+    indicator: string;
+    period: number;
+    indicatorParamsJson: string | null;
+    levels: number[];
+    mode: string;
+    hysteresis: number;
+    cooldown: number;
+    alertOnClose: number;
+    repeatable: number;
+    source: string;
+    description: string | null;
+    conditionsJson: string | null;
+    filterJson: string | null;
+}
+
+/**
+ * Validate alert rule body (all fields except userId)
+ * Returns rule fields or error message
+ */
+function validateRuleBody(body: any): { rule: RuleBody } | { error: string } {
+    const {
+        symbol,
+        timeframe,
+        indicator,
+        period,
+        rsiPeriod,  // Deprecated, kept for backward compatibility
+        indicatorParams,
+        levels,
+        mode,
+        hysteresis,  // Optional: re-arm distance for level crossings (default 0.5, 0 for unbounded indicators)
+        cooldownSec,
+        description,  // Optional description (used for watchlist alerts: "WATCHLIST:")
+        alertOnClose,  // Optional: true = alert only on candle close, false = on crossing (default)
+        repeatable,  // Optional: false = one-shot alert, deactivated after first delivered trigger (default true)
+        source,  // Optional: 'watchlist' or 'custom' (default) - for notification differentiation
+        conditions,  // Optional: composite rule { combinator, withinBars?, conditions } (replaces indicator/levels/mode)
+        filter  // Optional: condition that must hold for the rule to fire, e.g. { indicator: 'adx', operator: 'below', value: 25 }
+    } = body;
+
+    if (!symbol || !timeframe) {
+        return { error: 'Missing required fields' };
+    }
+
+    // Validate symbol (max 20 chars, alphanumeric and common symbols only)
+    if (typeof symbol !== 'string' || symbol.length > 20 || symbol.length < 1) {
+        return { error: 'Invalid symbol: must be 1-20 characters' };
+    }
+    if (!/^[A-Z0-9.\-=]+$/i.test(symbol)) {
+        return { error: 'Invalid symbol: contains invalid characters' };
+    }
+
+    // Validate timeframe
+    const validTimeframes = ['1m', '5m', '15m', '1h', '4h', '1d'];
+    if (!validTimeframes.includes(timeframe)) {
+        return { error: `Invalid timeframe: must be one of ${validTimeframes.join(', ')}` };
+    }
+
+    // Indicators the rule evaluates (main indicator, composite conditions, filter) - for volume check
+    const ruleIndicators: string[] = [];
+
+    // Validate composite rule conditions if provided
+    let conditionsJson: string | null = null;
+    if (conditions !== undefined && conditions !== null) {
+        const conditionsResult = validateConditions(conditions);
+        if ('error' in conditionsResult) {
+            return { error: conditionsResult.error };
+        }
+        conditionsJson = JSON.stringify(conditionsResult.expression);
+        ruleIndicators.push(...conditionsResult.expression.conditions.map(condition => condition.indicator));
+    }
+    const isComposite = conditionsJson !== null;
+
+    // Validate filter condition if provided (composite rules add conditions instead)
+    let filterJson: string | null = null;
+    if (filter !== undefined && filter !== null) {
+        if (isComposite) {
+            return { error: 'Invalid filter: composite rules combine conditions instead' };
+        }
+        const filterResult = validateCondition(filter);
+        if ('error' in filterResult) {
+            return { error: `Invalid filter: ${filterResult.error}` };
+        }
+        filterJson = JSON.stringify(filterResult.condition);
+        ruleIndicators.push(filterResult.condition.indicator);
+    }
+
+    // Validate indicator (default to 'rsi', 'composite' for rules with conditions)
+    const alertIndicator = isComposite ? 'composite' : (indicator || 'rsi');
+    if (!isComposite && !INDICATOR_IDS.includes(alertIndicator)) {
+        return { error: `Invalid indicator: must be one of ${INDICATOR_IDS.join(', ')}` };
+    }
+    ruleIndicators.push(alertIndicator);
+    const volumeError = validateVolumeSupport(symbol, ruleIndicators);
+    if (volumeError) {
+        return { error: volumeError };
+    }
+
+    // Validate period (1-100) - universal period for all indicators (price: bars for percent move)
+    const alertPeriod = period || rsiPeriod || getDefaultPeriod(alertIndicator);
+    if (!Number.isInteger(alertPeriod) || alertPeriod < 1 || alertPeriod > 100) {
+        return { error: 'Invalid period: must be between 1 and 100' };
+    }
+
+    // Validate indicator parameters if provided
+    let indicatorParamsJson: string | null = null;
+    if (indicatorParams) {
+        if (typeof indicatorParams !== 'object') {
+            return { error: 'Invalid indicatorParams: must be an object' };
+        }
+        indicatorParamsJson = JSON.stringify(indicatorParams);
+    }
+
+    // Validate mode (indicator-specific modes such as MACD signal_cross are allowed)
+    const validModes = getValidModes(alertIndicator);
+    const alertMode = isComposite ? 'conditions' : (mode || validModes[0]);
+    if (!validModes.includes(alertMode)) {
+        return { error: `Invalid mode: must be one of ${validModes.join(', ')}` };
+    }
+    const paramsError = validateIndicatorParams(alertIndicator, alertMode, indicatorParams);
+    if (paramsError) {
+        return { error: paramsError };
+    }
+    const timeframeError = validateIndicatorTimeframe(alertIndicator, timeframe, indicatorParams);
+    if (timeframeError) {
+        return { error: timeframeError };
+    }
+
+    // Validate levels
+    // Levels array should have 2 elements [lower, upper] with null for disabled levels
+    // Range depends on indicator (see getLevelRange: Williams %R -99 to -1, CCI ±1000, MACD/BB/price unbounded, others 1 to 99)
+    // Level-free modes (e.g. MACD signal_cross) don't use levels
+    let validLevels: number[] = [];
+    if (!isLevelFreeMode(alertMode)) {
+        if (!levels) {
+            return { error: 'Missing required fields' };
+        }
+        const levelsResult = validateLevels(levels, alertIndicator);
+        if ('error' in levelsResult) {
+            return { error: levelsResult.error };
+        }
+        validLevels = levelsResult.levels;
+    }
+
+    // Validate hysteresis (default 0.5 for bounded oscillators, 0 for price-unit indicators)
+    const alertHysteresis = hysteresis ?? getDefaultHysteresis(alertIndicator);
+    if (!isValidHysteresis(alertHysteresis)) {
+        return { error: 'Invalid hysteresis: must be a non-negative number' };
+    }
+
+    // Validate cooldown (0-86400 seconds = 0-24 hours)
+    const cooldown = cooldownSec || 600;
+    if (!Number.isInteger(cooldown) || cooldown < 0 || cooldown > 86400) {
+        return { error: 'Invalid cooldown: must be between 0 and 86400 seconds (24 hours)' };
+    }
+
+    const alertOnCloseVal = alertOnClose === true || alertOnClose === 1 ? 1 : 0;
+    const repeatableVal = repeatable === false || repeatable === 0 ? 0 : 1;
+    // Validate source (default to 'custom')
+    const alertSource = source === 'watchlist' ? 'watchlist' : 'custom';
+
+    return {
+        rule: {
+            symbol: symbol.toUpperCase(),
+            timeframe,
+            indicator: alertIndicator,
+            period: alertPeriod,
+            indicatorParamsJson,
+            levels: validLevels,
+            mode: alertMode,
+            hysteresis: alertHysteresis,
+            cooldown,
+            alertOnClose: alertOnCloseVal,
+            repeatable: repeatableVal,
+            source: alertSource,
+            description: description || null,
+            conditionsJson,
+            filterJson,
+        },
+    };
+}
+
+/**
+ * Forward performance summary of alert events, per bars-ahead horizon:
+ * hit rate = share of events with an expected direction that moved that way,
+ * move = % change of close, sign flipped for bearish events (positive = expected way).
+ * Max adverse excursion is over the longest horizon (events with an expected direction only).
+ */
+function summarizeEventPerformance(rows: any[]) {
+    const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+    const median = (values: number[]) => {
+        if (values.length === 0) {
+            return null;
+        }
+        const sorted = [...values].sort((a, b) => a - b);
+        const middle = Math.floor(sorted.length / 2);
+        return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    };
+
+    const horizons: Record<string, { count: number; hitRate: number | null; meanMove: number | null; medianMove: number | null }> = {};
+    for (const bars of FORWARD_RETURN_BARS) {
+        const moves: number[] = [];
+        let directional = 0;
+        let hits = 0;
+        for (const row of rows) {
+            const change = row[`change_${bars}`];
+            if (typeof change !== 'number') {
+                continue;
+            }
+            const direction = row.direction ?? 0;
+            moves.push(direction < 0 ? -change : change);
+            if (direction !== 0) {
+                directional++;
+                if (direction * change > 0) {
+                    hits++;
+                }
+            }
+        }
+        horizons[bars] = {
+            count: moves.length,
+            hitRate: directional > 0 ? hits / directional : null,
+            meanMove: mean(moves),
+            medianMove: median(moves),
+        };
+    }
+
+    const adverse = rows
+        .map(row => row.max_adverse)
+        .filter((value): value is number => typeof value === 'number');
+
+    return {
+        events: rows.length,
+        horizons,
+        maxAdverse: {
+            count: adverse.length,
+            mean: mean(adverse),
+            max: adverse.length > 0 ? Math.max(...adverse) : null,
+        },
+    };
+}
+
+/**
+ * alert_rule row for validated rule body (parsed with IndicatorEngine.parseRuleRow, like stored rules)
+ */
+function getRuleRow(rule: RuleBody, userId: string): Record<string, any> {
+    return {
+        id: 0,
+        user_id: userId,
+        symbol: rule.symbol,
+        timeframe: rule.timeframe,
+        indicator: rule.indicator,
+        period: rule.period,
+        indicator_params: rule.indicatorParamsJson,
+        levels: JSON.stringify(rule.levels),
+        mode: rule.mode,
+        hysteresis: rule.hysteresis,
+        cooldown_sec: rule.cooldown,
+        active: 1,
+        created_at: Date.now(),
+        description: rule.description,
+        alert_on_close: rule.alertOnClose,
+        repeatable: rule.repeatable,
+        source: rule.source,
+        conditions: rule.conditionsJson,
+        filter_condition: rule.filterJson,
+    };
+}
+
+/**
+ * Reject lookbacks the data provider can't supply on the rule's timeframes (e.g. SMA 200 on a 15m stock:
+ * minute history is 5 days, ~78 bars) - such a rule would never get enough candles to evaluate.
+ * With `from` (backtest) the bars back to it are needed as well
+ */
+function validateProviderHistory(env: Env, db: D1Database, row: Record<string, any>, from?: number): string | null {
+    const dataProviderService = new DataProviderService(new YahooService(env?.YAHOO_ENDPOINT || ''), new BinanceService(), db);
+    const indicatorEngine = new IndicatorEngine(db, dataProviderService);
+    const rule = indicatorEngine.parseRuleRow(row);
+    const requiredBars = indicatorEngine.getRequiredPeriod(rule);
+    const conditions = [...(rule.conditions?.conditions || []), ...(rule.filter ? [rule.filter] : [])];
+    const timeframes = new Set([rule.timeframe, ...conditions.map(condition => condition.timeframe || rule.timeframe)]);
+
+    for (const timeframe of timeframes) {
+        const availableBars = dataProviderService.getMaxHistoryBars(rule.symbol, timeframe);
+        // Range in the provider's bars (stock sessions, not calendar time), like availableBars
+        const rangeBars = from !== undefined ? dataProviderService.getHistoryBarsSince(rule.symbol, timeframe, from) : 0;
+        if (requiredBars + rangeBars > availableBars) {
+            return `${from !== undefined ? 'Date range' : 'Lookback'} too long: needs ${requiredBars + rangeBars} ${timeframe} bars, the data provider returns about ${availableBars} for ${rule.symbol}`;
+        }
+    }
+    return null;
+}
+
 // CORS middleware
 app.use('*', cors({
     origin: '*',
@@ -372,9 +990,11 @@ app.get('/', (c) => {
             },
             alerts: {
                 create: 'POST /alerts/create',
+                backtest: 'POST /alerts/backtest',
                 get: 'GET /alerts/:userId',
                 update: 'PUT /alerts/:ruleId',
                 delete: 'DELETE /alerts/:ruleId?hard=true',
+                performance: 'GET /alerts/:ruleId/performance?userId=USER_ID',
                 check: 'POST /alerts/check'
             }
         }
@@ -525,6 +1145,63 @@ app.get('/yf/search', async (c) => {
     }
 });
 
+// Indicator registry (ids, parameter schemas, levels, modes) for building alert forms
+app.get('/indicators', (c) => {
+    return c.json({ indicators: describeIndicators() });
+});
+
+// Closed-bar indicator values stored by the cron (full calculation over closed candles; see saveIndicatorSeries)
+// Query: symbol, tf, indicator, period (default per indicator), params (JSON, optional), limit (default 300, max 1000)
+app.get('/indicators/series', async (c) => {
+    try {
+        const { symbol, tf, indicator, period, params, limit } = c.req.query();
+
+        if (!symbol || !tf || !indicator) {
+            return c.json({ error: 'Missing symbol, tf or indicator' }, 400);
+        }
+        const definition = getIndicator(indicator);
+        if (!definition) {
+            return c.json({ error: `Invalid indicator: must be one of ${INDICATOR_IDS.join(', ')}` }, 400);
+        }
+        const seriesPeriod = period !== undefined ? Number(period) : definition.defaultPeriod;
+        if (!Number.isInteger(seriesPeriod) || seriesPeriod < 1 || seriesPeriod > 100) {
+            return c.json({ error: 'Invalid period: must be between 1 and 100' }, 400);
+        }
+        let seriesParams: any;
+        if (params) {
+            try {
+                seriesParams = JSON.parse(params);
+            } catch {
+                return c.json({ error: 'Invalid params: must be a JSON object' }, 400);
+            }
+        }
+        const rowLimit = Math.min(Math.max(Number(limit) || 300, 1), 1000);
+
+        const db = c.env?.DB as D1Database;
+        await ensureTables(db);
+
+        const seriesKey = getSeriesKey(definition.id, seriesPeriod, seriesParams);
+        const rows = await db.prepare(`
+            SELECT timestamp, value, close, state FROM indicator_data
+            WHERE symbol = ? AND timeframe = ? AND indicator = ?
+            ORDER BY timestamp DESC
+            LIMIT ?
+        `).bind(symbol.toUpperCase(), tf, seriesKey, rowLimit).all<{ timestamp: number; value: number; close: number; state: string | null }>();
+
+        const points = (rows.results || []).reverse().map(row => ({
+            timestamp: row.timestamp,
+            value: row.value,
+            close: row.close,
+            state: row.state ? JSON.parse(row.state) : null,
+        }));
+
+        return c.json({ symbol: symbol.toUpperCase(), timeframe: tf, indicator: definition.id, period: seriesPeriod, params: seriesParams ?? null, points });
+    } catch (error) {
+        Logger.error('Error fetching indicator series:', error, c.env);
+        return c.json({ error: 'Failed to fetch indicator series' }, 500);
+    }
+});
+
 // Device registration
 app.post('/device/register', async (c) => {
     try {
@@ -554,133 +1231,119 @@ app.post('/device/register', async (c) => {
 // Create alert rule
 app.post('/alerts/create', async (c) => {
     try {
-        const {
-            userId,
-            symbol,
-            timeframe,
-            indicator,
-            period,
-            rsiPeriod,  // Deprecated, kept for backward compatibility
-            indicatorParams,
-            levels,
-            mode,
-            cooldownSec,
-            description,  // Optional description (used for watchlist alerts: "WATCHLIST:")
-            alertOnClose,  // Optional: true = alert only on candle close, false = on crossing (default)
-            source  // Optional: 'watchlist' or 'custom' (default) - for notification differentiation
-        } = await c.req.json();
-
-        if (!userId || !symbol || !timeframe || !levels) {
+        const body = await c.req.json();
+        if (!body?.userId || !body.symbol || !body.timeframe) {
             return c.json({ error: 'Missing required fields' }, 400);
         }
+        const { userId } = body;
 
-        // Validate symbol (max 20 chars, alphanumeric and common symbols only)
-        if (typeof symbol !== 'string' || symbol.length > 20 || symbol.length < 1) {
-            return c.json({ error: 'Invalid symbol: must be 1-20 characters' }, 400);
-        }
-        if (!/^[A-Z0-9.\-=]+$/i.test(symbol)) {
-            return c.json({ error: 'Invalid symbol: contains invalid characters' }, 400);
+        const ruleResult = validateRuleBody(body);
+        if ('error' in ruleResult) {
+            return c.json({ error: ruleResult.error }, 400);
         }
+        const {
+            symbol, timeframe, indicator: alertIndicator, period: alertPeriod, indicatorParamsJson, levels: validLevels,
+            mode: alertMode, hysteresis: alertHysteresis, cooldown, alertOnClose: alertOnCloseVal, repeatable: repeatableVal,
+            source: alertSource, description, conditionsJson, filterJson
+        } = ruleResult.rule;
 
-        // Validate timeframe
-        const validTimeframes = ['1m', '5m', '15m', '1h', '4h', '1d'];
-        if (!validTimeframes.includes(timeframe)) {
-            return c.json({ error: `Invalid timeframe: must be one of ${validTimeframes.join(', ')}` }, 400);
+        const db = c.env?.DB as D1Database;
+        const historyError = validateProviderHistory(c.env, db, getRuleRow(ruleResult.rule, userId));
+        if (historyError) {
+            return c.json({ error: historyError }, 400);
         }
+        await ensureTables(db);
 
-        // Validate indicator (default to 'rsi')
-        const alertIndicator = indicator || 'rsi';
-        const validIndicators = ['rsi', 'stoch', 'williams'];
-        if (!validIndicators.includes(alertIndicator)) {
-            return c.json({ error: `Invalid indicator: must be one of ${validIndicators.join(', ')}` }, 400);
-        }
+        const result = await db.prepare(`
+      INSERT INTO alert_rule (
+        user_id, symbol, timeframe, indicator, period, indicator_params, rsi_period, levels, mode, 
+        hysteresis, cooldown_sec, active, created_at, description, alert_on_close, repeatable, source, conditions,
+        filter_condition
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?, ?, ?)
+    `).bind(
+            userId, symbol, timeframe, alertIndicator, alertPeriod,
+            indicatorParamsJson, alertPeriod, // rsi_period for backward compatibility
+            JSON.stringify(validLevels), alertMode, alertHysteresis,
+            cooldown, Date.now(), description, alertOnCloseVal, repeatableVal, alertSource,
+            conditionsJson, filterJson
+        ).run();
 
-        // Validate period (1-100) - universal period for all indicators
-        const alertPeriod = period || rsiPeriod || (alertIndicator === 'stoch' ? 14 : 14);
-        if (!Number.isInteger(alertPeriod) || alertPeriod < 1 || alertPeriod > 100) {
-            return c.json({ error: 'Invalid period: must be between 1 and 100' }, 400);
-        }
+        // Update device activity (user action)
+        await updateDeviceActivity(db, userId);
 
-        // Validate indicator parameters if provided
-        let indicatorParamsJson: string | null = null;
-        if (indicatorParams) {
-            if (typeof indicatorParams !== 'object') {
-                return c.json({ error: 'Invalid indicatorParams: must be an object' }, 400);
-            }
-            indicatorParamsJson = JSON.stringify(indicatorParams);
-        }
+        return c.json({ success: true, id: result.meta.last_row_id });
+    } catch (error) {
+        Logger.error('Error creating alert rule:', error, c.env);
+        return c.json({ error: 'Failed to create alert rule' }, 500);
+    }
+});
 
-        // Validate levels
-        // Levels array should have 2 elements [lower, upper] with null for disabled levels
-        // For Williams %R: -99 to -1, for others: 1 to 99
-        if (!Array.isArray(levels) || levels.length === 0 || levels.length > 2) {
-            return c.json({ error: 'Invalid levels: must be array of 1-2 elements [lower, upper] with null for disabled' }, 400);
+// Backtest rule: replay historical closed candles and return would-be triggers with forward returns
+// Body: same as /alerts/create plus from / to (ms timestamps, to defaults to now)
+// Candles come from the provider without touching the shared cache; coveredFrom in the result shows where
+// the replay actually started when the provider returned less history than the range
+app.post('/alerts/backtest', async (c) => {
+    try {
+        const body = await c.req.json();
+        if (!body?.userId || !body.symbol || !body.timeframe) {
+            return c.json({ error: 'Missing required fields' }, 400);
         }
-        const isWilliams = alertIndicator === 'williams';
-        const minLevel = isWilliams ? -99 : 1;
-        const maxLevel = isWilliams ? -1 : 99;
-        
-        // Filter out null values and validate
-        const validLevels: number[] = [];
-        for (let i = 0; i < levels.length; i++) {
-            const level = levels[i];
-            if (level === null || level === undefined) {
-                continue; // Skip null/undefined (disabled level)
-            }
-            if (typeof level !== 'number' || !isFinite(level)) {
-                return c.json({ error: `Invalid level at index ${i}: must be a finite number or null` }, 400);
-            }
-            if (level < minLevel || level > maxLevel) {
-                return c.json({ 
-                    error: `Invalid level at index ${i}: must be number between ${minLevel} and ${maxLevel}${isWilliams ? ' (Williams %R range)' : ''} or null` 
-                }, 400);
-            }
-            validLevels.push(level);
+        const { userId } = body;
+
+        const ruleResult = validateRuleBody(body);
+        if ('error' in ruleResult) {
+            return c.json({ error: ruleResult.error }, 400);
         }
-        
-        if (validLevels.length === 0) {
-            return c.json({ error: 'At least one level must be enabled (not null)' }, 400);
+        const rule = ruleResult.rule;
+
+        const now = Date.now();
+        const from = body.from;
+        const to = body.to ?? now;
+        if (!Number.isInteger(from) || !Number.isInteger(to) || from >= to || to > now) {
+            return c.json({ error: 'Invalid date range: from and to must be ms timestamps with from < to <= now' }, 400);
         }
 
-        // Validate mode
-        const validModes = ['cross', 'enter', 'exit'];
-        const alertMode = mode || 'cross';
-        if (!validModes.includes(alertMode)) {
-            return c.json({ error: `Invalid mode: must be one of ${validModes.join(', ')}` }, 400);
+        const db = c.env?.DB as D1Database;
+        const yahooService = new YahooService(c.env?.YAHOO_ENDPOINT as string || '');
+        const binanceService = new BinanceService();
+        const dataProviderService = new DataProviderService(yahooService, binanceService, db);
+        if (dataProviderService.getHistoryBarsSince(rule.symbol, rule.timeframe, from) > MAX_BACKTEST_BARS) {
+            return c.json({ error: `Invalid date range: at most ${MAX_BACKTEST_BARS} ${rule.timeframe} bars back from now` }, 400);
         }
 
-        // Validate cooldown (0-86400 seconds = 0-24 hours)
-        const cooldown = cooldownSec || 600;
-        if (!Number.isInteger(cooldown) || cooldown < 0 || cooldown > 86400) {
-            return c.json({ error: 'Invalid cooldown: must be between 0 and 86400 seconds (24 hours)' }, 400);
+        const historyError = validateProviderHistory(c.env, db, getRuleRow(rule, userId), from);
+        if (historyError) {
+            return c.json({ error: historyError }, 400);
         }
+        await ensureTables(db);
 
-        const alertOnCloseVal = alertOnClose === true || alertOnClose === 1 ? 1 : 0;
-        // Validate source (default to 'custom')
-        const alertSource = source === 'watchlist' ? 'watchlist' : 'custom';
+        // Backtests fetch long histories from the provider: registered users only
+        const device = await db.prepare(`SELECT 1 FROM device WHERE user_id = ? LIMIT 1`).bind(userId).first();
+        if (!device) {
+            return c.json({ error: 'Unauthorized: unknown user' }, 403);
+        }
 
-        const db = c.env?.DB as D1Database;
-        await ensureTables(db);
+        const indicatorEngine = new IndicatorEngine(db, dataProviderService);
 
-        const result = await db.prepare(`
-      INSERT INTO alert_rule (
-        user_id, symbol, timeframe, indicator, period, indicator_params, rsi_period, levels, mode, 
-        cooldown_sec, active, created_at, description, alert_on_close, source
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?)
-    `).bind(
-            userId, symbol.toUpperCase(), timeframe, alertIndicator, alertPeriod,
-            indicatorParamsJson, alertPeriod, // rsi_period for backward compatibility
-            JSON.stringify(validLevels), alertMode,
-            cooldown, Date.now(), description || null, alertOnCloseVal, alertSource
-        ).run();
+        // Same row shape as alert_rule, so the rule is parsed exactly like the cron does
+        const alertRule = indicatorEngine.parseRuleRow(getRuleRow(rule, userId));
+        const result = await indicatorEngine.backtestRule(alertRule, from, to);
 
         // Update device activity (user action)
         await updateDeviceActivity(db, userId);
 
-        return c.json({ success: true, id: result.meta.last_row_id });
+        return c.json({
+            symbol: rule.symbol,
+            timeframe: rule.timeframe,
+            indicator: rule.indicator,
+            period: rule.period,
+            from,
+            to,
+            ...result,
+        });
     } catch (error) {
-        Logger.error('Error creating alert rule:', error, c.env);
-        return c.json({ error: 'Failed to create alert rule' }, 500);
+        Logger.error('Error running backtest:', error, c.env);
+        return c.json({ error: 'Failed to run backtest' }, 500);
     }
 });
 
@@ -694,24 +1357,56 @@ app.get('/alerts/:userId', async (c) => {
 
         // Return ALL alerts (active and inactive) so paused alerts remain visible
         const result = await db.prepare(`
-      SELECT * FROM alert_rule WHERE user_id = ?
+      SELECT ar.*, ars.deactivated_reason, ars.deactivated_at
+      FROM alert_rule ar
+      LEFT JOIN alert_state ars ON ar.id = ars.rule_id
+      WHERE ar.user_id = ?
     `).bind(userId).all();
 
+        // Status: active | triggered (one-shot alert that fired) | paused (deactivated by user)
+        const rules = (result.results as any[]).map((row: any) => ({
+            ...row,
+            status: row.active === 1 ? 'active' : (row.deactivated_reason === 'triggered' ? 'triggered' : 'paused'),
+        }));
+
         // Update device activity (user action)
         await updateDeviceActivity(db, userId);
 
-        return c.json({ rules: result.results });
+        return c.json({ rules });
     } catch (error) {
         Logger.error('Error fetching alert rules:', error, c.env);
         return c.json({ error: 'Failed to fetch alert rules' }, 500);
     }
 });
 
+// Body fields PUT /alerts/:ruleId accepts; other keys are ignored (update keys become column names,
+// derived columns like filter_condition and indicator_params are only written after validation)
+const UPDATABLE_RULE_FIELDS = [
+    'symbol', 'timeframe', 'indicator', 'period', 'rsi_period', 'indicatorParams', 'levels', 'mode', 'hysteresis',
+    'cooldown_sec', 'active', 'alert_on_close', 'repeatable', 'description', 'source', 'conditions', 'filter',
+];
+
 // Update rule
 app.put('/alerts/:ruleId', async (c) => {
     try {
         const ruleId = c.req.param('ruleId');
-        const { userId, ...updates } = await c.req.json();
+        const body = await c.req.json();
+        const userId = body.userId;
+        const updates: Record<string, any> = {};
+        for (const key of UPDATABLE_RULE_FIELDS) {
+            if (body[key] !== undefined) {
+                updates[key] = body[key];
+            }
+        }
+
+        // The app sends indicator_params as a JSON string - validated like indicatorParams
+        if (updates.indicatorParams === undefined && body.indicator_params !== undefined) {
+            try {
+                updates.indicatorParams = typeof body.indicator_params === 'string' ? JSON.parse(body.indicator_params) : body.indicator_params;
+            } catch {
+                return c.json({ error: 'Invalid indicator_params: must be a JSON object' }, 400);
+            }
+        }
 
         if (!userId) {
             return c.json({ error: 'Missing userId' }, 400);
@@ -722,8 +1417,8 @@ app.put('/alerts/:ruleId', async (c) => {
 
         // Verify that the alert belongs to the user
         const existing = await db.prepare(`
-            SELECT user_id, indicator FROM alert_rule WHERE id = ?
-        `).bind(ruleId).first<{ user_id: string; indicator: string }>();
+            SELECT * FROM alert_rule WHERE id = ?
+        `).bind(ruleId).first<{ user_id: string; symbol: string; timeframe: string; indicator: string; mode: string; indicator_params: string | null; [column: string]: any }>();
 
         if (!existing) {
             return c.json({ error: 'Alert not found' }, 404);
@@ -751,10 +1446,60 @@ app.put('/alerts/:ruleId', async (c) => {
             }
         }
 
+        // Composite rules keep indicator 'composite'; their conditions are updated instead
+        if (existing.indicator === 'composite' && updates.indicator !== undefined) {
+            return c.json({ error: 'Cannot change indicator of a composite rule: update conditions instead' }, 400);
+        }
+
+        if (updates.conditions !== undefined) {
+            if (existing.indicator !== 'composite') {
+                return c.json({ error: 'Conditions can only be updated on composite rules' }, 400);
+            }
+            const conditionsResult = validateConditions(updates.conditions);
+            if ('error' in conditionsResult) {
+                return c.json({ error: conditionsResult.error }, 400);
+            }
+            updates.conditions = JSON.stringify(conditionsResult.expression);
+        }
+
+        // Filter condition (null removes it); stored in filter_condition column
+        if (updates.filter !== undefined) {
+            if (existing.indicator === 'composite' && updates.filter !== null) {
+                return c.json({ error: 'Invalid filter: composite rules combine conditions instead' }, 400);
+            }
+            if (updates.filter === null) {
+                updates.filter_condition = null;
+            } else {
+                const filterResult = validateCondition(updates.filter);
+                if ('error' in filterResult) {
+                    return c.json({ error: `Invalid filter: ${filterResult.error}` }, 400);
+                }
+                updates.filter_condition = JSON.stringify(filterResult.condition);
+            }
+            delete updates.filter;
+        }
+
         if (updates.indicator !== undefined) {
-            const validIndicators = ['rsi', 'stoch', 'williams'];
-            if (!validIndicators.includes(updates.indicator)) {
-                return c.json({ error: `Invalid indicator: must be one of ${validIndicators.join(', ')}` }, 400);
+            if (!INDICATOR_IDS.includes(updates.indicator)) {
+                return c.json({ error: `Invalid indicator: must be one of ${INDICATOR_IDS.join(', ')}` }, 400);
+            }
+        }
+
+        // Indicator type for validation (use updates.indicator if provided, otherwise existing alert)
+        const updateIndicator = updates.indicator || existing.indicator || 'rsi';
+
+        // Volume indicators on the (new) symbol, incl. updated conditions and filter
+        if (updates.symbol !== undefined || updates.indicator !== undefined || updates.conditions !== undefined || updates.filter_condition) {
+            const updateIndicators = [updateIndicator];
+            if (updates.conditions !== undefined) {
+                updateIndicators.push(...(JSON.parse(updates.conditions) as RuleExpression).conditions.map(condition => condition.indicator));
+            }
+            if (updates.filter_condition) {
+                updateIndicators.push((JSON.parse(updates.filter_condition) as RuleCondition).indicator);
+            }
+            const volumeError = validateVolumeSupport(updates.symbol ?? existing.symbol, updateIndicators);
+            if (volumeError) {
+                return c.json({ error: volumeError }, 400);
             }
         }
 
@@ -764,11 +1509,18 @@ app.put('/alerts/:ruleId', async (c) => {
             }
         }
 
+        // Parameters for mode validation (parsed before indicatorParams is stringified)
+        const updateParams = updates.indicatorParams !== undefined
+            ? updates.indicatorParams
+            : (existing.indicator_params ? JSON.parse(existing.indicator_params) : null);
+
+        // Body field indicatorParams is stored in the indicator_params column (update keys are column names)
         if (updates.indicatorParams !== undefined) {
             if (typeof updates.indicatorParams !== 'object') {
                 return c.json({ error: 'Invalid indicatorParams: must be an object' }, 400);
             }
-            updates.indicatorParams = JSON.stringify(updates.indicatorParams);
+            updates.indicator_params = updates.indicatorParams === null ? null : JSON.stringify(updates.indicatorParams);
+            delete updates.indicatorParams;
         }
 
         if (updates.rsi_period !== undefined) {
@@ -783,46 +1535,42 @@ app.put('/alerts/:ruleId', async (c) => {
 
         if (updates.levels !== undefined) {
             // Levels array should have 2 elements [lower, upper] with null for disabled levels
-            if (!Array.isArray(updates.levels) || updates.levels.length === 0 || updates.levels.length > 2) {
-                return c.json({ error: 'Invalid levels: must be array of 1-2 elements [lower, upper] with null for disabled' }, 400);
-            }
-            // Determine indicator type for validation (use updates.indicator if provided, otherwise check existing alert)
-            const updateIndicator = updates.indicator || existing.indicator || 'rsi';
-            const isWilliams = updateIndicator === 'williams';
-            const minLevel = isWilliams ? -99 : 1;
-            const maxLevel = isWilliams ? -1 : 99;
-            
-            // Filter out null values and validate
-            const validLevels: number[] = [];
-            for (let i = 0; i < updates.levels.length; i++) {
-                const level = updates.levels[i];
-                if (level === null || level === undefined) {
-                    continue; // Skip null/undefined (disabled level)
-                }
-                if (typeof level !== 'number' || !isFinite(level)) {
-                    return c.json({ error: `Invalid level at index ${i}: must be a finite number or null` }, 400);
-                }
-                if (level < minLevel || level > maxLevel) {
-                    return c.json({ 
-                        error: `Invalid level at index ${i}: must be number between ${minLevel} and ${maxLevel}${isWilliams ? ' (Williams %R range)' : ''} or null` 
-                    }, 400);
-                }
-                validLevels.push(level);
-            }
-            
-            if (validLevels.length === 0) {
-                return c.json({ error: 'At least one level must be enabled (not null)' }, 400);
+            const levelsResult = validateLevels(updates.levels, updateIndicator);
+            if ('error' in levelsResult) {
+                return c.json({ error: levelsResult.error }, 400);
             }
-            
-            updates.levels = JSON.stringify(validLevels);
+            updates.levels = JSON.stringify(levelsResult.levels);
         }
 
-        if (updates.mode !== undefined) {
-            const validModes = ['cross', 'enter', 'exit'];
-            if (!validModes.includes(updates.mode)) {
+        // Check mode against indicator (also when only indicator changes, e.g. MACD signal_cross -> RSI)
+        const updateMode = updates.mode ?? existing.mode ?? 'cross';
+        if (updates.mode !== undefined || updates.indicator !== undefined) {
+            const validModes = getValidModes(updateIndicator);
+            if (!validModes.includes(updateMode)) {
                 return c.json({ error: `Invalid mode: must be one of ${validModes.join(', ')}` }, 400);
             }
         }
+        if (updates.mode !== undefined || updates.indicator !== undefined || updates.indicator_params !== undefined) {
+            const paramsError = validateIndicatorParams(updateIndicator, updateMode, updateParams);
+            if (paramsError) {
+                return c.json({ error: paramsError }, 400);
+            }
+        }
+        if (updates.timeframe !== undefined || updates.indicator !== undefined || updates.indicator_params !== undefined) {
+            const timeframeError = validateIndicatorTimeframe(updateIndicator, updates.timeframe ?? existing.timeframe, updateParams);
+            if (timeframeError) {
+                return c.json({ error: timeframeError }, 400);
+            }
+        }
+
+        if (updates.hysteresis !== undefined) {
+            if (!isValidHysteresis(updates.hysteresis)) {
+                return c.json({ error: 'Invalid hysteresis: must be a non-negative number' }, 400);
+            }
+        } else if (updates.indicator !== undefined) {
+            // Hysteresis is in indicator units - re-derive it for the new indicator
+            updates.hysteresis = getDefaultHysteresis(updateIndicator);
+        }
 
         if (updates.cooldown_sec !== undefined) {
             if (!Number.isInteger(updates.cooldown_sec) || updates.cooldown_sec < 0 || updates.cooldown_sec > 86400) {
@@ -834,8 +1582,31 @@ app.put('/alerts/:ruleId', async (c) => {
             updates.alert_on_close = (updates.alert_on_close === true || updates.alert_on_close === 1) ? 1 : 0;
         }
 
+        if (updates.repeatable !== undefined) {
+            updates.repeatable = (updates.repeatable === false || updates.repeatable === 0) ? 0 : 1;
+        }
+
+        if (updates.active !== undefined) {
+            updates.active = (updates.active === true || updates.active === 1) ? 1 : 0;
+        }
+
+        if (updates.description !== undefined && updates.description !== null && typeof updates.description !== 'string') {
+            return c.json({ error: 'Invalid description: must be a string' }, 400);
+        }
+
+        if (updates.source !== undefined) {
+            updates.source = updates.source === 'watchlist' ? 'watchlist' : 'custom';
+        }
+
+        // Lookback of the updated rule vs provider history
+        if (['symbol', 'timeframe', 'indicator', 'period', 'rsi_period', 'indicator_params', 'mode', 'conditions', 'filter_condition'].some(key => updates[key] !== undefined)) {
+            const historyError = validateProviderHistory(c.env, db, { ...existing, ...updates });
+            if (historyError) {
+                return c.json({ error: historyError }, 400);
+            }
+        }
+
         const fields = Object.keys(updates)
-            .filter(key => key !== 'id' && key !== 'user_id')
             .map(key => `${key} = ?`)
             .join(', ');
 
@@ -843,16 +1614,44 @@ app.put('/alerts/:ruleId', async (c) => {
             return c.json({ error: 'No valid fields to update' }, 400);
         }
 
-        const values = Object.values(updates).filter((_, i) => {
-            const key = Object.keys(updates)[i];
-            return key !== 'id' && key !== 'user_id';
-        });
+        const values = Object.values(updates);
         values.push(ruleId);
 
         await db.prepare(`
       UPDATE alert_rule SET ${fields} WHERE id = ?
     `).bind(...values).run();
 
+        // New conditions or another series (indicator scales differ): the stored value and calculation state
+        // belong to the old series - next check compares within the new series (composite: only initializes state)
+        const seriesChanged = ['conditions', 'symbol', 'timeframe', 'indicator', 'period', 'rsi_period', 'indicator_params', 'mode']
+            .some(key => updates[key] !== undefined);
+        if (seriesChanged) {
+            await db.prepare(`
+          UPDATE alert_state SET last_indicator_value = NULL, last_rsi = NULL, indicator_state = NULL WHERE rule_id = ?
+        `).bind(ruleId).run();
+        }
+
+        // Re-activated (or paused by user): no longer "triggered"
+        if (updates.active !== undefined) {
+            await db.prepare(`
+          UPDATE alert_state SET deactivated_reason = NULL, deactivated_at = NULL WHERE rule_id = ?
+        `).bind(ruleId).run();
+        }
+
+        // Arming flags refer to the old levels - reset so the next check falls back to plain crossing
+        if (updates.levels !== undefined || updates.hysteresis !== undefined || updates.indicator !== undefined || updates.mode !== undefined) {
+            await db.prepare(`
+          UPDATE alert_state SET was_above_upper = NULL, was_below_lower = NULL WHERE rule_id = ?
+        `).bind(ruleId).run();
+        }
+
+        // Pivots were found on another series - next check only records the latest divergence
+        if (updates.indicator !== undefined || updates.mode !== undefined || updates.period !== undefined || updates.indicator_params !== undefined || updates.timeframe !== undefined) {
+            await db.prepare(`
+          UPDATE alert_state SET last_divergence_ts = NULL WHERE rule_id = ?
+        `).bind(ruleId).run();
+        }
+
         // Update device activity (user action)
         await updateDeviceActivity(db, userId);
 
@@ -911,6 +1710,54 @@ app.delete('/alerts/:ruleId', async (c) => {
     }
 });
 
+// Forward performance of rule's fired alerts and of all fired alerts on its indicator (filled hourly by the cron)
+app.get('/alerts/:ruleId/performance', async (c) => {
+    try {
+        const ruleId = c.req.param('ruleId');
+        const userId = c.req.query('userId');
+
+        if (!userId) {
+            return c.json({ error: 'Missing userId' }, 400);
+        }
+
+        const db = c.env?.DB as D1Database;
+        await ensureTables(db);
+
+        // Verify that the alert belongs to the user
+        const existing = await db.prepare(`
+            SELECT user_id, indicator FROM alert_rule WHERE id = ?
+        `).bind(ruleId).first<{ user_id: string; indicator: string | null }>();
+
+        if (!existing) {
+            return c.json({ error: 'Alert not found' }, 404);
+        }
+
+        if (existing.user_id !== userId) {
+            return c.json({ error: 'Unauthorized: alert belongs to different user' }, 403);
+        }
+
+        const indicator = existing.indicator || 'rsi';
+        const columns = `direction, max_adverse, ${FORWARD_RETURN_BARS.map(bars => `change_${bars}`).join(', ')}`;
+        const ruleEvents = await db.prepare(`
+            SELECT ${columns} FROM alert_event WHERE rule_id = ? AND ref_close IS NOT NULL
+        `).bind(ruleId).all();
+        const indicatorEvents = await db.prepare(`
+            SELECT ${columns} FROM alert_event WHERE indicator = ? AND ref_close IS NOT NULL
+            ORDER BY ts DESC LIMIT 5000
+        `).bind(indicator).all();
+
+        return c.json({
+            ruleId: Number(ruleId),
+            bars: FORWARD_RETURN_BARS,
+            rule: summarizeEventPerformance(ruleEvents.results || []),
+            indicator: { id: indicator, ...summarizeEventPerformance(indicatorEvents.results || []) },
+        });
+    } catch (error) {
+        Logger.error('Error fetching alert performance:', error, c.env);
+        return c.json({ error: 'Failed to fetch alert performance' }, 500);
+    }
+});
+
 // Force alert check
 app.post('/alerts/check', async (c) => {
     try {
@@ -935,6 +1782,9 @@ app.post('/alerts/check', async (c) => {
 const worker: ExportedHandler<Env> = {
     fetch: app.fetch,
     scheduled: async (_controller: ScheduledController, env: Env, _ctx: ExecutionContext) => {
+        // Hourly maintenance (top of the hour) runs after the alert check, also when that check is skipped
+        // (no active rules, FCM not configured) or fails
+        const isTopOfHour = new Date().getMinutes() === 0;
         try {
             const db = env.DB;
 
@@ -1046,11 +1896,17 @@ const worker: ExportedHandler<Env> = {
                             const BATCH_SIZE = 3;
                             for (let i = 0; i < result.triggers.length; i += BATCH_SIZE) {
                                 const batch = result.triggers.slice(i, i + BATCH_SIZE);
-                                const notificationPromises = batch.map(trigger =>
-                                    fcmService.sendAlert(trigger).catch(error => {
+                                const notificationPromises = batch.map(async trigger => {
+                                    try {
+                                        const delivered = await fcmService.sendAlert(trigger);
+                                        // One-shot rule: deactivate after the first delivered trigger (stays armed if delivery failed)
+                                        if (delivered && trigger.oneShot) {
+                                            await indicatorEngine.deactivateRule(trigger.ruleId);
+                                        }
+                                    } catch (error) {
                                         Logger.error(`Error sending notification for trigger ${trigger.ruleId}:`, error, env);
-                                    })
-                                );
+                                    }
+                                });
                                 await Promise.all(notificationPromises);
                                 
                                 // Small delay between batches to prevent CPU burst (reduced from 20ms to 10ms)
@@ -1074,25 +1930,100 @@ const worker: ExportedHandler<Env> = {
                 const executionTime = Date.now() - startTime;
                 const avgTimePerPair = pairsToProcess.length > 0 ? executionTime / pairsToProcess.length : 0;
                 Logger.info(`CRON performance: ${pairsToProcess.length} pairs processed (${symbolTimeframePairs.length} total), ${cacheHitCount} cache hits, ${cacheMissCount} cache misses, ${totalTriggers} triggers, ${executionTime}ms total (avg ${Math.round(avgTimePerPair)}ms/pair)`, env);
+                const { incremental, recomputed, computed, reused } = indicatorEngine.calculationStats;
+                Logger.info(`CRON indicators: ${incremental} series advanced from stored state, ${recomputed} recomputed from all candles; ${computed} series computed, ${reused} calculations saved by sharing across rules`, env);
 
                 // Watchlist Alerts are now handled as regular AlertRule with description "WATCHLIST:"
                 // They are automatically processed by IndicatorEngine above, so no separate logic needed
 
                 Logger.info('RSI check completed', env);
             }
-
-            // Periodically cleanup inactive anonymous users (run once per hour, not every minute)
-            // Check if current minute is 0 (top of the hour)
-            const currentMinute = new Date().getMinutes();
-            if (currentMinute === 0) {
-                await cleanupInactiveAnonymousUsers(db, env);
-            }
         } catch (error) {
             Logger.error('Error in scheduled RSI check:', error, env);
+        } finally {
+            if (isTopOfHour) {
+                await runHourlyMaintenance(env);
+            }
         }
     }
 };
 
+/**
+ * Once per hour (not every minute): cleanup inactive anonymous users, indicator_data retention,
+ * forward performance of alert events
+ */
+async function runHourlyMaintenance(env: Env): Promise<void> {
+    try {
+        const db = env.DB;
+        await ensureTables(db);
+        const dataProviderService = new DataProviderService(new YahooService(env.YAHOO_ENDPOINT), new BinanceService(), db);
+
+        await cleanupInactiveAnonymousUsers(db, env);
+        await cleanupIndicatorData(db, env);
+        await updateEventPerformance(new IndicatorEngine(db, dataProviderService), env);
+    } catch (error) {
+        Logger.error('Error in hourly maintenance:', error, env);
+    }
+}
+
+// Days of indicator_data kept per timeframe; override with INDICATOR_DATA_RETENTION var (JSON, e.g. {"1m": 2, "1d": 730})
+const INDICATOR_DATA_RETENTION_DAYS: Record<string, number> = {
+    '1m': 1,
+    '5m': 3,
+    '15m': 7,
+    '1h': 30,
+    '4h': 90,
+    '1d': 365,
+};
+
+/**
+ * Delete indicator_data rows older than the retention of their timeframe
+ */
+async function cleanupIndicatorData(db: D1Database, env: Env): Promise<void> {
+    try {
+        let retentionDays = INDICATOR_DATA_RETENTION_DAYS;
+        if (env.INDICATOR_DATA_RETENTION) {
+            try {
+                retentionDays = { ...INDICATOR_DATA_RETENTION_DAYS, ...JSON.parse(env.INDICATOR_DATA_RETENTION) };
+            } catch {
+                Logger.warn('INDICATOR_DATA_RETENTION is not valid JSON, using default retention', env);
+            }
+        }
+
+        let totalDeleted = 0;
+        for (const [timeframe, days] of Object.entries(retentionDays)) {
+            if (typeof days !== 'number' || days <= 0) {
+                continue;
+            }
+            const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+            const result = await db.prepare(`
+                DELETE FROM indicator_data WHERE timeframe = ? AND timestamp < ?
+            `).bind(timeframe, cutoff).run();
+            totalDeleted += result.meta?.changes || 0;
+        }
+
+        if (totalDeleted > 0) {
+            Logger.info(`Deleted ${totalDeleted} indicator_data row(s) past retention`, env);
+        }
+    } catch (error) {
+        Logger.error('Error cleaning up indicator data:', error, env);
+    }
+}
+
+/**
+ * Fill forward price changes of fired alerts (GET /alerts/:ruleId/performance)
+ */
+async function updateEventPerformance(indicatorEngine: IndicatorEngine, env: Env): Promise<void> {
+    try {
+        const completed = await indicatorEngine.updateEventPerformance();
+        if (completed > 0) {
+            Logger.info(`Completed forward performance of ${completed} alert event(s)`, env);
+        }
+    } catch (error) {
+        Logger.error('Error updating alert event performance:', error, env);
+    }
+}
+
 /**
  * Clean up alerts for inactive anonymous users (30 days without activity)
  * Only deletes alerts, not devices/sessions
@@ -1405,7 +2336,8 @@ async function cleanupInactiveAnonymousUsers(db: D1Database, env: Env): Promise<
                 upperLevelEnabled,
                 cooldownSec,
                 repeatable,
-                onClose
+                onClose,
+                indicatorParams
             } = await c.req.json();
 
             if (!userId || !indicator) {
@@ -1413,9 +2345,12 @@ async function cleanupInactiveAnonymousUsers(db: D1Database, env: Env): Promise<
             }
 
             // Validate indicator
-            const validIndicators = ['rsi', 'stoch', 'wpr'];
-            if (!validIndicators.includes(indicator)) {
-                return c.json({ error: `Invalid indicator: must be one of ${validIndicators.join(', ')}` }, 400);
+            if (!WATCHLIST_INDICATORS.includes(indicator)) {
+                return c.json({ error: `Invalid indicator: must be one of ${WATCHLIST_INDICATORS.join(', ')}` }, 400);
+            }
+            const paramsError = validateWatchlistParams(indicator, indicatorParams);
+            if (paramsError) {
+                return c.json({ error: paramsError }, 400);
             }
 
             const db = c.env?.DB as D1Database;
@@ -1426,8 +2361,8 @@ async function cleanupInactiveAnonymousUsers(db: D1Database, env: Env): Promise<
                 INSERT INTO watchlist_alert_settings (
                     user_id, indicator, enabled, timeframe, period, stoch_d_period,
                     mode, lower_level, upper_level, lower_level_enabled, upper_level_enabled,
-                    cooldown_sec, repeatable, on_close, updated_at
-                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                    cooldown_sec, repeatable, on_close, indicator_params, updated_at
+                ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
                 ON CONFLICT(user_id, indicator) DO UPDATE SET
                     enabled = excluded.enabled,
                     timeframe = excluded.timeframe,
@@ -1441,15 +2376,16 @@ async function cleanupInactiveAnonymousUsers(db: D1Database, env: Env): Promise<
                     cooldown_sec = excluded.cooldown_sec,
                     repeatable = excluded.repeatable,
                     on_close = excluded.on_close,
+                    indicator_params = excluded.indicator_params,
                     updated_at = excluded.updated_at
             `).bind(
                 userId,
                 indicator,
                 enabled ? 1 : 0,
                 timeframe || '15m',
-                period || 14,
+                period || getDefaultPeriod(indicator),
                 stochDPeriod || null,
-                mode || 'cross',
+                mode || getValidModes(indicator)[0],
                 lowerLevel ?? 30,
                 upperLevel ?? 70,
                 lowerLevelEnabled !== false ? 1 : 0,
@@ -1457,6 +2393,7 @@ async function cleanupInactiveAnonymousUsers(db: D1Database, env: Env): Promise<
                 cooldownSec || 600,
                 repeatable !== false ? 1 : 0,
                 onClose ? 1 : 0,
+                indicatorParams ? JSON.stringify(indicatorParams) : null,
                 Date.now()
             ).run();
 
@@ -1499,7 +2436,8 @@ async function cleanupInactiveAnonymousUsers(db: D1Database, env: Env): Promise<
                     upperLevelEnabled: row.upper_level_enabled === 1,
                     cooldownSec: row.cooldown_sec,
                     repeatable: row.repeatable === 1,
-                    onClose: row.on_close === 1
+                    onClose: row.on_close === 1,
+                    indicatorParams: row.indicator_params ? JSON.parse(row.indicator_params) : null
                 };
             }
 
@@ -1532,41 +2470,48 @@ async function cleanupInactiveAnonymousUsers(db: D1Database, env: Env): Promise<
                 upperLevelEnabled,
                 cooldownSec,
                 repeatable,
-                onClose
+                onClose,
+                indicatorParams
             } = await c.req.json();
 
             if (!userId || !indicator) {
                 return c.json({ error: 'Missing userId or indicator' }, 400);
             }
 
-            const validIndicators = ['rsi', 'stoch', 'wpr'];
-            if (!validIndicators.includes(indicator)) {
-                return c.json({ error: `Invalid indicator: must be one of ${validIndicators.join(', ')}` }, 400);
+            if (!WATCHLIST_INDICATORS.includes(indicator)) {
+                return c.json({ error: `Invalid indicator: must be one of ${WATCHLIST_INDICATORS.join(', ')}` }, 400);
+            }
+            const paramsError = validateWatchlistParams(indicator, indicatorParams);
+            if (paramsError) {
+                return c.json({ error: paramsError }, 400);
             }
 
             const db = c.env?.DB as D1Database;
             await ensureTables(db);
 
-            // Server-side indicator for alert_rule: wpr -> williams
-            const alertIndicator = indicator === 'wpr' ? 'williams' : indicator;
+            // Server-side indicator for alert_rule: client alias (wpr) -> registry id (williams)
+            const definition = getIndicator(indicator)!;
+            const alertIndicator = definition.id;
             const validTimeframes = ['1m', '5m', '15m', '1h', '4h', '1d'];
             const alertTimeframe = validTimeframes.includes(timeframe) ? timeframe : '15m';
-            const alertPeriod = typeof period === 'number' && period >= 1 && period <= 100 ? period : 14;
-            const alertMode = ['cross', 'enter', 'exit'].includes(mode) ? mode : 'cross';
+            const alertPeriod = typeof period === 'number' && period >= 1 && period <= 100 ? period : definition.defaultPeriod;
+            // Supertrend / PSAR alert on trend flips only (no levels)
+            const isTrendIndicator = getValidModes(alertIndicator).includes('trend_flip');
+            const alertMode = isTrendIndicator ? 'trend_flip' : (['cross', 'enter', 'exit'].includes(mode) ? mode : 'cross');
             const cooldown = typeof cooldownSec === 'number' && cooldownSec >= 0 && cooldownSec <= 86400 ? cooldownSec : 600;
             const lowerEnabled = lowerLevelEnabled !== false;
             const upperEnabled = upperLevelEnabled !== false;
-            const lower = typeof lowerLevel === 'number' && isFinite(lowerLevel) ? lowerLevel : 30;
-            const upper = typeof upperLevel === 'number' && isFinite(upperLevel) ? upperLevel : 70;
-            const isWilliams = alertIndicator === 'williams';
-            const minL = isWilliams ? -99 : 1;
-            const maxL = isWilliams ? -1 : 99;
+            const [defaultLower, defaultUpper] = definition.defaultLevels ?? [30, 70];
+            const lower = typeof lowerLevel === 'number' && isFinite(lowerLevel) ? lowerLevel : defaultLower;
+            const upper = typeof upperLevel === 'number' && isFinite(upperLevel) ? upperLevel : defaultUpper;
+            const range = definition.levelRange;
+            const inRange = (level: number) => !range || (level >= range.min && level <= range.max);
             const levelsArr: (number | null)[] = [
-                lowerEnabled && lower >= minL && lower <= maxL ? lower : null,
-                upperEnabled && upper >= minL && upper <= maxL ? upper : null
+                lowerEnabled && inRange(lower) ? lower : null,
+                upperEnabled && inRange(upper) ? upper : null
             ];
-            const validLevels = levelsArr.filter((x): x is number => x != null);
-            if (enabled && validLevels.length === 0) {
+            const validLevels = isTrendIndicator ? [] : levelsArr.filter((x): x is number => x != null);
+            if (enabled && !isTrendIndicator && validLevels.length === 0) {
                 return c.json({ error: 'At least one level must be enabled' }, 400);
             }
 
@@ -1576,6 +2521,8 @@ async function cleanupInactiveAnonymousUsers(db: D1Database, env: Env): Promise<
             let indicatorParamsJson: string | null = null;
             if (alertIndicator === 'stoch' && typeof stochDPeriod === 'number' && stochDPeriod >= 1 && stochDPeriod <= 100) {
                 indicatorParamsJson = JSON.stringify({ dPeriod: stochDPeriod });
+            } else if (isTrendIndicator && indicatorParams) {
+                indicatorParamsJson = JSON.stringify(indicatorParams);
             }
 
             // Fetch watchlist symbols
@@ -1584,6 +2531,19 @@ async function cleanupInactiveAnonymousUsers(db: D1Database, env: Env): Promise<
             `).bind(userId).all();
             const symbols = (watchlistResult.results as any[]).map((r: any) => String(r.symbol).toUpperCase()).filter(Boolean);
 
+            // Lookback vs provider history (e.g. RSI 100 on 15m stocks)
+            if (enabled) {
+                for (const symbol of symbols) {
+                    const historyError = validateProviderHistory(c.env, db, {
+                        id: 0, user_id: userId, symbol, timeframe: alertTimeframe, indicator: alertIndicator, period: alertPeriod,
+                        indicator_params: indicatorParamsJson, levels: JSON.stringify(validLevels), mode: alertMode,
+                    });
+                    if (historyError) {
+                        return c.json({ error: historyError }, 400);
+                    }
+                }
+            }
+
             // Get existing watchlist rule ids for this user+indicator
             const existing = await db.prepare(`
                 SELECT id FROM alert_rule WHERE user_id = ? AND source = 'watchlist' AND indicator = ?
@@ -1608,12 +2568,12 @@ async function cleanupInactiveAnonymousUsers(db: D1Database, env: Env): Promise<
                     await db.prepare(`
                         INSERT INTO alert_rule (
                             user_id, symbol, timeframe, indicator, period, indicator_params, rsi_period, levels, mode,
-                            cooldown_sec, active, created_at, description, alert_on_close, source
-                        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, 'watchlist')
+                            hysteresis, cooldown_sec, active, created_at, description, alert_on_close, repeatable, source
+                        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, 'watchlist')
                     `).bind(
                         userId, symbol, alertTimeframe, alertIndicator, alertPeriod,
                         indicatorParamsJson, alertPeriod, levelsJson, alertMode,
-                        cooldown, now, description, alertOnCloseVal
+                        getDefaultHysteresis(alertIndicator), cooldown, now, description, alertOnCloseVal, repeatable !== false ? 1 : 0
                     ).run();
                     createdCount++;
                 }
@@ -1625,8 +2585,8 @@ async function cleanupInactiveAnonymousUsers(db: D1Database, env: Env): Promise<
                     INSERT INTO watchlist_alert_settings (
                         user_id, indicator, enabled, timeframe, period, stoch_d_period,
                         mode, lower_level, upper_level, lower_level_enabled, upper_level_enabled,
-                        cooldown_sec, repeatable, on_close, updated_at
-                    ) VALUES (?, ?, 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+                        cooldown_sec, repeatable, on_close, indicator_params, updated_at
+                    ) VALUES (?, ?, 1, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
                     ON CONFLICT(user_id, indicator) DO UPDATE SET
                         enabled = 1,
                         timeframe = excluded.timeframe,
@@ -1640,12 +2600,14 @@ async function cleanupInactiveAnonymousUsers(db: D1Database, env: Env): Promise<
                         cooldown_sec = excluded.cooldown_sec,
                         repeatable = excluded.repeatable,
                         on_close = excluded.on_close,
+                        indicator_params = excluded.indicator_params,
                         updated_at = excluded.updated_at
                 `).bind(
                     userId, indicator, alertTimeframe, alertPeriod,
                     indicator === 'stoch' && typeof stochDPeriod === 'number' ? stochDPeriod : null,
                     alertMode, lower, upper, lowerEnabled ? 1 : 0, upperEnabled ? 1 : 0,
-                    cooldown, repeatable !== false ? 1 : 0, onClose ? 1 : 0, now
+                    cooldown, repeatable !== false ? 1 : 0, onClose ? 1 : 0,
+                    isTrendIndicator && indicatorParams ? JSON.stringify(indicatorParams) : null, now
                 ).run();
             } else {
                 await db.prepare(`
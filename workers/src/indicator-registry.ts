@@ -0,0 +1,655 @@
+import type { IndicatorEngine } from './rsi-engine';
+
+/**
+ * Indicator registry: every indicator the engine can alert on, with its parameters, levels, modes,
+ * warm-up and calculation. Routes, validation, the engine and admin stats are driven from it,
+ * and GET /indicators publishes it so the app can build its forms.
+ *
+ * Adding an indicator = implementing its calculation in IndicatorEngine and adding an entry here
+ * (plus mode handling in checkCrossings when it brings new modes).
+ */
+
+export type IndicatorPoint = { value: number, state?: any };
+
+export type IndicatorParamType = 'integer' | 'number' | 'boolean' | 'enum' | 'enum_list' | 'timestamp' | 'line';
+
+/**
+ * indicator_params field description (validated generically, see validateIndicatorParams)
+ */
+export interface IndicatorParamSpec {
+    name: string;
+    type: IndicatorParamType;
+    description: string;
+    default?: any;
+    min?: number;
+    max?: number;
+    minExclusive?: boolean;       // min itself is not allowed (e.g. multiplier > 0)
+    values?: readonly string[];   // enum / enum_list values
+    modes?: string[];             // Only used by these modes (all modes when not set)
+    requiredModes?: string[];     // Must be set for these modes
+}
+
+export interface LevelRange {
+    min: number;
+    max: number;
+    note?: string;
+}
+
+/**
+ * Incremental calculation: the engine stores `seed` state for the last closed bar and advances it with `step`
+ * on later runs (new closed bars, then the forming bar on top) instead of recomputing the whole series.
+ * seed + step over the following bars must give the same values as the full calculation.
+ */
+export interface IncrementalCalculation {
+    supports?(params: any): boolean;  // false = parameters without an incremental form (full recompute)
+    seed(engine: IndicatorEngine, candles: any[], period: number, params: any): any | null;  // null = not enough candles
+    step(engine: IndicatorEngine, calc: any, candle: any, period: number, params: any): { point: IndicatorPoint, calc: any };
+}
+
+export interface IndicatorDefinition {
+    id: string;
+    name: string;
+    alias?: string;                 // Client id, e.g. 'wpr' for Williams %R in watchlist settings
+    defaultPeriod: number;
+    usesPeriod: boolean;            // false = `period` is ignored (parameters are in indicator_params)
+    levelRange: LevelRange | null;  // Allowed level values; null = unbounded (price units, volume, ...)
+    defaultLevels?: [number, number];
+    zoneMidpoint?: number;          // A single level at or above it is an upper level
+    levelModes: boolean;            // cross / enter / exit against levels
+    modes: string[];                // Indicator-specific modes that don't use levels
+    params: IndicatorParamSpec[];
+    lines?: string[];               // State lines usable in conditions (besides the main value)
+    requiresVolume?: boolean;       // Needs volume data (not reported for forex)
+    timeframes?: string[];          // Only these timeframes (all when not set)
+    watchlist?: boolean;            // Available for watchlist mass alerts
+    warmupBars(engine: IndicatorEngine, period: number, params: any, timeframeMs: number): number;
+    calculate(engine: IndicatorEngine, candles: any[], period: number, params?: any): IndicatorPoint[];
+    incremental?: IncrementalCalculation;
+    validate?(mode: string, params: any): string | null;           // Checks across parameters
+    validateTimeframe?(timeframe: string, params: any): string | null;
+}
+
+// Modes that compare the indicator value against levels
+export const LEVEL_MODES = ['cross', 'enter', 'exit'];
+
+export const PRICE_SOURCES = ['close', 'hl2', 'hlc3', 'ohlc4', 'ha_close'];
+export const RSI_SMOOTHING_METHODS = ['wilder', 'ema', 'sma'];
+export const MA_LINE_TYPES = ['price', 'sma', 'ema', 'wma', 'hma'];
+export const MAX_MA_PERIOD = 200;
+
+/** Candlestick patterns detected on closed candles (indicator 'pattern'), grouped by bias. */
+export const BULLISH_PATTERNS = ['bullish_engulfing', 'hammer', 'morning_star'] as const;
+export const BEARISH_PATTERNS = ['bearish_engulfing', 'shooting_star', 'evening_star'] as const;
+export const NEUTRAL_PATTERNS = ['doji', 'inside_bar'] as const;
+export const CANDLE_PATTERNS: readonly string[] = [...BULLISH_PATTERNS, ...BEARISH_PATTERNS, ...NEUTRAL_PATTERNS];
+export type CandlePattern = typeof BULLISH_PATTERNS[number] | typeof BEARISH_PATTERNS[number] | typeof NEUTRAL_PATTERNS[number];
+
+// VWAP is session-based: intraday timeframes only
+const VWAP_TIMEFRAMES = ['1m', '5m', '15m', '1h'];
+// Oldest anchor for anchored VWAP (provider intraday history: 5 days of minute bars, 60 days of 1h bars)
+const MAX_VWAP_ANCHOR_DAYS: Record<string, number> = { '1m': 5, '5m': 5, '15m': 5, '1h': 60 };
+
+const OSCILLATOR_RANGE: LevelRange = { min: 1, max: 99 };
+
+const sourceParam = (defaultSource = 'close'): IndicatorParamSpec => ({
+    name: 'source', type: 'enum', values: PRICE_SOURCES, default: defaultSource, description: 'Price source',
+});
+
+const smoothingParam: IndicatorParamSpec = {
+    name: 'smoothing', type: 'enum', values: RSI_SMOOTHING_METHODS, default: 'wilder', description: 'RSI smoothing (TradingView options)',
+};
+
+// Price / indicator pivot divergence
+const divergenceParams: IndicatorParamSpec[] = [
+    { name: 'pivotLookback', type: 'integer', min: 1, max: 20, default: 5, modes: ['divergence'], description: 'Bars on each side of a pivot' },
+    { name: 'minPivotDistance', type: 'integer', min: 1, max: 100, default: 5, modes: ['divergence'], description: 'Minimum bars between pivots' },
+    { name: 'maxPivotDistance', type: 'integer', min: 1, max: 200, default: 60, modes: ['divergence'], description: 'Maximum bars between pivots' },
+];
+
+// %K / %D crossover zone filter
+const kdCrossParams: IndicatorParamSpec[] = [
+    { name: 'zoneFilter', type: 'boolean', default: false, modes: ['kd_cross'], description: 'Only crosses with %D in the oversold / overbought zone' },
+    { name: 'oversold', type: 'number', min: 0, max: 100, default: 20, modes: ['kd_cross'], description: 'Oversold zone for the filter' },
+    { name: 'overbought', type: 'number', min: 0, max: 100, default: 80, modes: ['kd_cross'], description: 'Overbought zone for the filter' },
+];
+
+function validateKdZone(params: any): string | null {
+    const oversold = params?.oversold ?? 20;
+    const overbought = params?.overbought ?? 80;
+    if (oversold >= overbought) {
+        return 'Invalid indicatorParams.oversold/overbought: must be numbers 0-100 with oversold < overbought';
+    }
+    return null;
+}
+
+// Warm-up of indicators that only need `period` bars
+const periodBars = (_engine: IndicatorEngine, period: number) => period;
+
+export const INDICATORS: IndicatorDefinition[] = [
+    {
+        id: 'rsi',
+        name: 'RSI',
+        defaultPeriod: 14,
+        usesPeriod: true,
+        levelRange: OSCILLATOR_RANGE,
+        defaultLevels: [30, 70],
+        zoneMidpoint: 50,
+        levelModes: true,
+        modes: ['divergence'],
+        params: [sourceParam(), smoothingParam, ...divergenceParams],
+        watchlist: true,
+        warmupBars: periodBars,
+        calculate: (engine, candles, period, params) => engine.calculateRsi(candles, period, params).map(v => ({ value: v })),
+        incremental: {
+            supports: params => params?.smoothing !== 'sma',  // Cutler's RSI needs the whole window
+            seed: (engine, candles, period, params) => engine.getRsiCalcState(candles, period, params),
+            step: (engine, calc, candle, period, params) => engine.stepRsi(calc, candle, period, params),
+        },
+    },
+    {
+        id: 'stoch',
+        name: 'Stochastic',
+        defaultPeriod: 14,
+        usesPeriod: true,
+        levelRange: OSCILLATOR_RANGE,
+        defaultLevels: [20, 80],
+        zoneMidpoint: 50,
+        levelModes: true,
+        modes: ['divergence', 'kd_cross'],
+        params: [
+            { name: 'slowPeriod', type: 'integer', min: 1, max: 100, default: 3, description: '%K smoothing' },
+            { name: 'dPeriod', type: 'integer', min: 1, max: 100, default: 6, description: '%D period' },
+            { name: 'smoothPeriod', type: 'integer', min: 1, max: 100, default: 3, description: '%D smoothing' },
+            sourceParam(),
+            ...kdCrossParams,
+            ...divergenceParams,
+        ],
+        lines: ['k', 'd'],
+        watchlist: true,
+        warmupBars: periodBars,
+        calculate: (engine, candles, period, params) => engine.calculateStochastic(candles, period, params),
+        validate: (mode, params) => mode === 'kd_cross' ? validateKdZone(params) : null,
+    },
+    {
+        id: 'williams',
+        name: 'Williams %R',
+        alias: 'wpr',
+        defaultPeriod: 14,
+        usesPeriod: true,
+        levelRange: { min: -99, max: -1, note: 'Williams %R range' },
+        defaultLevels: [-80, -20],
+        zoneMidpoint: -50,
+        levelModes: true,
+        modes: ['divergence'],
+        params: [sourceParam(), ...divergenceParams],
+        watchlist: true,
+        warmupBars: periodBars,
+        calculate: (engine, candles, period, params) => engine.calculateWilliams(candles, period, params).map(v => ({ value: v })),
+    },
+    {
+        id: 'macd',
+        name: 'MACD',
+        defaultPeriod: 14,
+        usesPeriod: false,
+        levelRange: null,  // MACD is in price units
+        zoneMidpoint: 0,
+        levelModes: true,
+        modes: ['signal_cross', 'zero_cross', 'histogram_flip'],
+        params: [
+            { name: 'fastPeriod', type: 'integer', min: 1, max: 100, default: 12, description: 'Fast EMA period' },
+            { name: 'slowPeriod', type: 'integer', min: 1, max: 100, default: 26, description: 'Slow EMA period' },
+            { name: 'signalPeriod', type: 'integer', min: 1, max: 100, default: 9, description: 'Signal EMA period' },
+        ],
+        lines: ['macd', 'signal', 'histogram'],
+        warmupBars: (engine, _period, params) => engine.getMacdMinBars(params) + 1,  // +1 bar for crossings
+        calculate: (engine, candles, _period, params) => engine.calculateMacd(candles, params),
+        incremental: {
+            seed: (engine, candles, _period, params) => engine.getMacdCalcState(candles, params),
+            step: (engine, calc, candle, _period, params) => engine.stepMacd(calc, candle, params),
+        },
+    },
+    {
+        id: 'bb',
+        name: 'Bollinger Bands',
+        defaultPeriod: 20,
+        usesPeriod: true,
+        levelRange: null,  // %B can go outside 0-1, bandwidth is in percent
+        levelModes: true,
+        modes: ['band_break', 'squeeze'],
+        params: [
+            { name: 'stdDev', type: 'number', min: 0, max: 5, minExclusive: true, default: 2, description: 'Band width in standard deviations' },
+            { name: 'maType', type: 'enum', values: ['sma', 'ema'], default: 'sma', description: 'Basis moving average' },
+            { name: 'valueType', type: 'enum', values: ['percent_b', 'bandwidth'], default: 'percent_b', description: 'Main value compared against levels' },
+            { name: 'squeezeLookback', type: 'integer', min: 1, max: 100, default: 20, description: 'Bars for the squeeze bandwidth minimum' },
+        ],
+        lines: ['upper', 'middle', 'lower', 'close', 'percentB', 'bandwidth', 'squeeze'],
+        warmupBars: (_engine, period, params) => period + (params.squeezeLookback ?? 20),
+        calculate: (engine, candles, period, params) => engine.calculateBollinger(candles, period, params),
+    },
+    {
+        id: 'price',
+        name: 'Price',
+        defaultPeriod: 1,  // Percent move within 1 bar
+        usesPeriod: true,
+        levelRange: null,  // Absolute price levels
+        levelModes: true,
+        modes: ['percent_move', 'gap'],
+        params: [
+            { name: 'percent', type: 'number', min: 0, max: 100, minExclusive: true, requiredModes: ['percent_move', 'gap'], description: 'Move within `period` bars / gap from previous close, in percent' },
+        ],
+        lines: ['close', 'change', 'gap'],
+        warmupBars: periodBars,
+        calculate: (engine, candles, period) => engine.calculatePrice(candles, period),
+    },
+    {
+        id: 'stochrsi',
+        name: 'Stochastic RSI',
+        defaultPeriod: 14,
+        usesPeriod: true,
+        levelRange: OSCILLATOR_RANGE,
+        defaultLevels: [20, 80],
+        zoneMidpoint: 50,
+        levelModes: true,
+        modes: ['kd_cross'],
+        params: [
+            { name: 'stochPeriod', type: 'integer', min: 1, max: 100, default: 14, description: 'Stochastic period over RSI' },
+            { name: 'kSmoothing', type: 'integer', min: 1, max: 100, default: 3, description: '%K smoothing' },
+            { name: 'dSmoothing', type: 'integer', min: 1, max: 100, default: 3, description: '%D smoothing' },
+            smoothingParam,
+            sourceParam(),
+            ...kdCrossParams,
+        ],
+        lines: ['k', 'd'],
+        warmupBars: (_engine, period, params) => period + (params.stochPeriod ?? 14) + (params.kSmoothing ?? 3) + (params.dSmoothing ?? 3),
+        calculate: (engine, candles, period, params) => engine.calculateStochRsi(candles, period, params),
+        validate: (mode, params) => mode === 'kd_cross' ? validateKdZone(params) : null,
+    },
+    {
+        id: 'adx',
+        name: 'ADX / DMI',
+        defaultPeriod: 14,
+        usesPeriod: true,
+        levelRange: OSCILLATOR_RANGE,
+        defaultLevels: [20, 40],
+        zoneMidpoint: 25,
+        levelModes: true,
+        modes: ['di_cross'],
+        params: [
+            { name: 'adxSmoothing', type: 'integer', min: 1, max: 100, description: 'ADX smoothing (default: period)' },
+        ],
+        lines: ['adx', 'plusDi', 'minusDi'],
+        warmupBars: (_engine, period, params) => period + (params.adxSmoothing ?? period) + 1,
+        calculate: (engine, candles, period, params) => engine.calculateAdx(candles, period, params),
+    },
+    {
+        id: 'mfi',
+        name: 'Money Flow Index',
+        defaultPeriod: 14,
+        usesPeriod: true,
+        levelRange: OSCILLATOR_RANGE,
+        defaultLevels: [20, 80],
+        zoneMidpoint: 50,
+        levelModes: true,
+        modes: [],
+        params: [],
+        requiresVolume: true,
+        warmupBars: periodBars,
+        calculate: (engine, candles, period) => engine.calculateMfi(candles, period).map(v => ({ value: v })),
+    },
+    {
+        id: 'obv',
+        name: 'On-Balance Volume',
+        defaultPeriod: 14,
+        usesPeriod: true,
+        levelRange: null,  // Volume units
+        levelModes: true,
+        modes: ['slope_change', 'breakout'],  // OBV slope over `period` bars changes sign / OBV breaks its `period`-bar range
+        params: [],
+        lines: ['obv', 'slope', 'highest', 'lowest'],
+        requiresVolume: true,
+        warmupBars: periodBars,
+        calculate: (engine, candles, period) => engine.calculateObv(candles, period),
+    },
+    {
+        id: 'cmf',
+        name: 'Chaikin Money Flow',
+        defaultPeriod: 20,
+        usesPeriod: true,
+        levelRange: null,  // -1 to 1, levels are fractions (e.g. 0.05)
+        zoneMidpoint: 0,
+        levelModes: true,
+        modes: ['zero_cross'],
+        params: [],
+        requiresVolume: true,
+        warmupBars: periodBars,
+        calculate: (engine, candles, period) => engine.calculateCmf(candles, period).map(v => ({ value: v })),
+    },
+    {
+        id: 'cci',
+        name: 'CCI',
+        defaultPeriod: 20,
+        usesPeriod: true,
+        levelRange: { min: -1000, max: 1000, note: 'CCI range' },
+        defaultLevels: [-100, 100],
+        zoneMidpoint: 0,
+        levelModes: true,
+        modes: [],
+        params: [sourceParam('hlc3')],
+        warmupBars: periodBars,
+        calculate: (engine, candles, period, params) => engine.calculateCci(candles, period, params).map(v => ({ value: v })),
+    },
+    {
+        id: 'roc',
+        name: 'Rate of Change',
+        defaultPeriod: 9,
+        usesPeriod: true,
+        levelRange: { min: -99, max: 1000, note: 'ROC in percent' },
+        zoneMidpoint: 0,
+        levelModes: true,
+        modes: [],
+        params: [sourceParam()],
+        warmupBars: periodBars,
+        calculate: (engine, candles, period, params) => engine.calculateRoc(candles, period, params).map(v => ({ value: v })),
+    },
+    {
+        id: 'momentum',
+        name: 'Momentum',
+        defaultPeriod: 10,
+        usesPeriod: true,
+        levelRange: null,  // Price units
+        zoneMidpoint: 0,
+        levelModes: true,
+        modes: [],
+        params: [sourceParam()],
+        warmupBars: periodBars,
+        calculate: (engine, candles, period, params) => engine.calculateMomentum(candles, period, params).map(v => ({ value: v })),
+    },
+    {
+        id: 'ma',
+        name: 'Moving-Average Crossover',
+        defaultPeriod: 14,
+        usesPeriod: false,
+        levelRange: null,  // Price units
+        levelModes: false,  // Line against line only
+        modes: ['ma_cross'],
+        params: [
+            { name: 'fast', type: 'line', values: MA_LINE_TYPES, max: MAX_MA_PERIOD, default: { type: 'sma', period: 50 }, description: 'Fast line, e.g. { type: "ema", period: 9 } or { type: "price" }' },
+            { name: 'slow', type: 'line', values: MA_LINE_TYPES, max: MAX_MA_PERIOD, default: { type: 'sma', period: 200 }, description: 'Slow line' },
+            sourceParam(),
+        ],
+        lines: ['fast', 'slow'],
+        warmupBars: (engine, _period, params) => {
+            const crossover = engine.getMaCrossover(params);
+            return Math.max(engine.getMaLinePeriod(crossover.fast), engine.getMaLinePeriod(crossover.slow));
+        },
+        calculate: (engine, candles, _period, params) => engine.calculateMaCrossover(candles, params),
+        validate: (_mode, params) => params?.fast?.type === 'price' && params?.slow?.type === 'price'
+            ? 'Invalid indicatorParams: fast and slow lines cannot both be price'
+            : null,
+    },
+    {
+        id: 'supertrend',
+        name: 'Supertrend',
+        defaultPeriod: 10,  // ATR period
+        usesPeriod: true,
+        levelRange: null,  // Price units
+        levelModes: false,
+        modes: ['trend_flip'],
+        params: [
+            { name: 'multiplier', type: 'number', min: 0, max: 20, minExclusive: true, default: 3, description: 'ATR multiplier' },
+        ],
+        lines: ['supertrend', 'direction', 'upper', 'lower'],
+        watchlist: true,
+        warmupBars: (_engine, period) => period + 1,  // ATR warm-up + previous bar for the flip
+        calculate: (engine, candles, period, params) => engine.calculateSupertrend(candles, period, params),
+    },
+    {
+        id: 'psar',
+        name: 'Parabolic SAR',
+        defaultPeriod: 14,
+        usesPeriod: false,
+        levelRange: null,  // Price units
+        levelModes: false,
+        modes: ['trend_flip'],
+        params: [
+            { name: 'step', type: 'number', min: 0, max: 1, minExclusive: true, default: 0.02, description: 'Acceleration start and increment' },
+            { name: 'maxStep', type: 'number', min: 0, max: 1, minExclusive: true, default: 0.2, description: 'Maximum acceleration' },
+        ],
+        lines: ['sar', 'direction', 'ep', 'af'],
+        watchlist: true,
+        warmupBars: () => 3,  // SAR starts on the second bar; path-dependent, the candle buffer gives it room to settle
+        calculate: (engine, candles, _period, params) => engine.calculateParabolicSar(candles, params),
+        validate: (_mode, params) => (params?.step ?? 0.02) > (params?.maxStep ?? 0.2)
+            ? 'Invalid indicatorParams.step/maxStep: must be numbers with 0 < step <= maxStep <= 1'
+            : null,
+    },
+    {
+        id: 'ichimoku',
+        name: 'Ichimoku Cloud',
+        defaultPeriod: 14,
+        usesPeriod: false,
+        levelRange: null,  // Price units
+        levelModes: false,
+        modes: ['tk_cross', 'cloud_cross', 'cloud_twist'],
+        params: [
+            { name: 'tenkan', type: 'integer', min: 1, max: 100, default: 9, description: 'Tenkan-sen (conversion line) period' },
+            { name: 'kijun', type: 'integer', min: 1, max: 100, default: 26, description: 'Kijun-sen (base line) period' },
+            { name: 'senkouB', type: 'integer', min: 1, max: 100, default: 52, description: 'Senkou Span B period' },
+            { name: 'displacement', type: 'integer', min: 1, max: 100, default: 26, description: 'Cloud displacement' },
+        ],
+        lines: ['tenkan', 'kijun', 'spanA', 'spanB', 'leadA', 'leadB', 'close', 'position'],
+        warmupBars: (engine, _period, params) => {
+            const { kijun, senkouB, displacement } = engine.getIchimokuParams(params);
+            // Cloud under the last bar is projected from displacement - 1 bars back, +1 bar for events
+            return Math.max(kijun, senkouB) + displacement;
+        },
+        calculate: (engine, candles, _period, params) => engine.calculateIchimoku(candles, params),
+    },
+    {
+        id: 'vwap',
+        name: 'VWAP',
+        defaultPeriod: 14,
+        usesPeriod: false,
+        levelRange: null,  // Price units
+        levelModes: false,
+        modes: ['vwap_cross', 'band_break'],
+        params: [
+            { name: 'anchor', type: 'timestamp', description: 'Anchored VWAP start (ms); session VWAP when not set' },
+            { name: 'bandMultiplier', type: 'number', min: 0, max: 5, minExclusive: true, default: 1, description: 'Band width in standard deviations' },
+            sourceParam('hlc3'),
+        ],
+        lines: ['vwap', 'upper', 'lower', 'close', 'percentB'],
+        requiresVolume: true,
+        timeframes: VWAP_TIMEFRAMES,
+        warmupBars: (_engine, _period, params, timeframeMs) => {
+            // Bars since anchor, or one calendar day of bars so the current session is complete (+1 for events)
+            const sinceMs = typeof params.anchor === 'number' ? Date.now() - params.anchor : 24 * 60 * 60 * 1000;
+            return Math.ceil(sinceMs / timeframeMs) + 1;
+        },
+        calculate: (engine, candles, _period, params) => engine.calculateVwap(candles, params),
+        // Anchored VWAP needs candles back to the anchor
+        validateTimeframe: (timeframe, params) => {
+            const maxDays = MAX_VWAP_ANCHOR_DAYS[timeframe];
+            if (typeof params?.anchor === 'number' && Date.now() - params.anchor > maxDays * 24 * 60 * 60 * 1000) {
+                return `Invalid indicatorParams.anchor: must be within the last ${maxDays} days on ${timeframe}`;
+            }
+            return null;
+        },
+    },
+    {
+        id: 'pattern',
+        name: 'Candlestick Patterns',
+        defaultPeriod: 14,
+        usesPeriod: false,
+        levelRange: null,  // 1/0 per pattern
+        levelModes: false,
+        modes: ['pattern'],
+        params: [
+            { name: 'patterns', type: 'enum_list', values: CANDLE_PATTERNS, default: CANDLE_PATTERNS, description: 'Patterns to alert on' },
+        ],
+        lines: [...CANDLE_PATTERNS],
+        warmupBars: () => 8,  // Morning / evening star (3 bars) after the 5-bar trend check
+        calculate: (engine, candles, _period, params) => engine.calculatePatterns(candles, params),
+    },
+];
+
+const INDICATORS_BY_ID = new Map<string, IndicatorDefinition>();
+for (const definition of INDICATORS) {
+    INDICATORS_BY_ID.set(definition.id, definition);
+    if (definition.alias) {
+        INDICATORS_BY_ID.set(definition.alias, definition);
+    }
+}
+
+export const INDICATOR_IDS = INDICATORS.map(definition => definition.id);
+
+/** Indicators computed from candle volume (need a provider that reports volume). */
+export const VOLUME_INDICATORS = INDICATORS.filter(definition => definition.requiresVolume).map(definition => definition.id);
+
+/** Watchlist mass alerts (client ids, e.g. wpr = williams). */
+export const WATCHLIST_INDICATORS = INDICATORS.filter(definition => definition.watchlist).map(definition => definition.alias ?? definition.id);
+
+/**
+ * Indicator definition by id or client alias (undefined for unknown ids and 'composite')
+ */
+export function getIndicator(id: string): IndicatorDefinition | undefined {
+    return INDICATORS_BY_ID.get(id.toLowerCase());
+}
+
+/**
+ * Valid modes of indicator: level modes (unless line-only) + indicator-specific modes
+ */
+export function getValidModes(indicator: string): string[] {
+    if (indicator === 'composite') {
+        return ['conditions'];  // Composite rules evaluate alert_rule.conditions
+    }
+    const definition = getIndicator(indicator);
+    if (!definition) {
+        return LEVEL_MODES;
+    }
+    return [...(definition.levelModes ? LEVEL_MODES : []), ...definition.modes];
+}
+
+export function isLevelFreeMode(mode: string): boolean {
+    return !LEVEL_MODES.includes(mode);
+}
+
+/**
+ * Allowed level range for indicator (null = unbounded, any finite number is accepted)
+ */
+export function getLevelRange(indicator: string): LevelRange | null {
+    const definition = getIndicator(indicator);
+    return definition ? definition.levelRange : OSCILLATOR_RANGE;
+}
+
+/**
+ * Default period for indicator (same defaults as TradingView)
+ */
+export function getDefaultPeriod(indicator: string): number {
+    return getIndicator(indicator)?.defaultPeriod ?? 14;
+}
+
+/**
+ * Validate single parameter value against its spec. Returns error message or null
+ */
+function validateParam(spec: IndicatorParamSpec, value: any): string | null {
+    const prefix = `Invalid indicatorParams.${spec.name}`;
+    const rangeText = spec.min !== undefined && spec.max !== undefined ? ` between ${spec.min} and ${spec.max}` : '';
+    switch (spec.type) {
+        case 'integer':
+            if (!Number.isInteger(value) || (spec.min !== undefined && value < spec.min) || (spec.max !== undefined && value > spec.max)) {
+                return `${prefix}: must be an integer${rangeText}`;
+            }
+            return null;
+        case 'number': {
+            const belowMin = spec.min !== undefined && (spec.minExclusive ? value <= spec.min : value < spec.min);
+            if (typeof value !== 'number' || !isFinite(value) || belowMin || (spec.max !== undefined && value > spec.max)) {
+                return `${prefix}: must be a number${rangeText}`;
+            }
+            return null;
+        }
+        case 'boolean':
+            return typeof value === 'boolean' ? null : `${prefix}: must be a boolean`;
+        case 'enum':
+            return spec.values!.includes(value) ? null : `${prefix}: must be one of ${spec.values!.join(', ')}`;
+        case 'enum_list':
+            return Array.isArray(value) && value.every(item => spec.values!.includes(item))
+                ? null
+                : `${prefix}: must be array of ${spec.values!.join(', ')}`;
+        case 'timestamp':
+            return Number.isInteger(value) && value <= Date.now() ? null : `${prefix}: must be a past timestamp in milliseconds`;
+        case 'line':
+            // { type, period } with period required unless type is 'price'
+            if (!value || typeof value !== 'object' || !spec.values!.includes(value.type)) {
+                return `${prefix}.type: must be one of ${spec.values!.join(', ')}`;
+            }
+            if (value.type !== 'price' && (!Number.isInteger(value.period) || value.period < 1 || value.period > spec.max!)) {
+                return `${prefix}.period: must be between 1 and ${spec.max}`;
+            }
+            return null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Validate indicator parameters against the registry schema (plus checks across parameters)
+ * Unknown parameters are ignored. Returns error message or null
+ */
+export function validateIndicatorParams(indicator: string, mode: string, params: any): string | null {
+    const definition = getIndicator(indicator);
+    if (!definition) {
+        return null;
+    }
+    for (const spec of definition.params) {
+        const value = params?.[spec.name];
+        if (value === undefined) {
+            if (spec.requiredModes?.includes(mode)) {
+                return `Invalid indicatorParams.${spec.name}: required for ${mode} mode`;
+            }
+            continue;
+        }
+        const error = validateParam(spec, value);
+        if (error) {
+            return error;
+        }
+    }
+    return definition.validate?.(mode, params) ?? null;
+}
+
+/**
+ * Validate that indicator is available on timeframe (e.g. VWAP is intraday only)
+ * Returns error message or null
+ */
+export function validateIndicatorTimeframe(indicator: string, timeframe: string, params: any): string | null {
+    const definition = getIndicator(indicator);
+    if (!definition) {
+        return null;
+    }
+    if (definition.timeframes && !definition.timeframes.includes(timeframe)) {
+        return `Invalid timeframe: ${definition.name} is only available on ${definition.timeframes.join(', ')}`;
+    }
+    return definition.validateTimeframe?.(timeframe, params) ?? null;
+}
+
+/**
+ * Registry as published by GET /indicators (functions left out)
+ */
+export function describeIndicators() {
+    return INDICATORS.map(definition => ({
+        id: definition.id,
+        name: definition.name,
+        alias: definition.alias ?? null,
+        defaultPeriod: definition.defaultPeriod,
+        usesPeriod: definition.usesPeriod,
+        levelRange: definition.levelRange,
+        defaultLevels: definition.defaultLevels ?? null,
+        zoneMidpoint: definition.zoneMidpoint ?? null,
+        modes: getValidModes(definition.id),
+        params: definition.params,
+        lines: definition.lines ?? [],
+        requiresVolume: definition.requiresVolume === true,
+        timeframes: definition.timeframes ?? null,
+        watchlist: definition.watchlist === true,
+    }));
+}
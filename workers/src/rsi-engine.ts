@@ -1,4 +1,5 @@
 import { DataProviderService } from './data-provider-service';
+import { getIndicator, getLevelRange, VOLUME_INDICATORS, type IncrementalCalculation, CANDLE_PATTERNS, BULLISH_PATTERNS, BEARISH_PATTERNS, type CandlePattern } from './indicator-registry';
 
 export interface AlertRule {
     id: number;
@@ -12,11 +13,59 @@ export interface AlertRule {
     levels: number[];  // Filtered array without null (for backward compatibility)
     levelsWithNull?: (number | null)[];  // Full array with null [lower, upper] where null = disabled
     mode: string;
+    hysteresis?: number;  // Re-arm distance for level crossings (indicator units)
     cooldown_sec: number;
     active: number;
+    repeatable?: number;  // 0 = one-shot: deactivated after first delivered trigger
     created_at: number;
     alert_on_close?: boolean;  // true = only closed candles, false = crossing (incl. forming)
     source?: string;  // 'watchlist' or 'custom' - for notification differentiation
+    conditions?: RuleExpression;  // Composite rule (indicator = 'composite'): conditions combined with AND/OR
+    filter?: RuleCondition;  // Parsed filter_condition: triggers fire only while it holds (e.g. ADX < 25)
+    crossover?: MaCrossover;  // MA crossover rules: fast line vs slow line (from indicator_params)
+}
+
+export type MovingAverageType = 'sma' | 'ema' | 'wma' | 'hma';
+
+/**
+ * Line of a moving-average crossover: MA of the price source, or the price itself
+ */
+export interface CrossoverLine {
+    type: MovingAverageType | 'price';
+    period?: number;  // Not used for 'price'
+}
+
+/**
+ * Two-series comparison for MA crossover rules (indicator = 'ma'), stored in indicator_params
+ */
+export interface MaCrossover {
+    fast: CrossoverLine;
+    slow: CrossoverLine;
+}
+
+export type ConditionOperator = 'above' | 'below' | 'crosses_above' | 'crosses_below';
+
+/**
+ * Single condition of a composite rule, e.g. RSI(14) below 30 or Stoch %K crosses above %D
+ */
+export interface RuleCondition {
+    indicator: string;       // 'rsi', 'stoch', 'williams', 'macd', 'bb', 'price', 'stochrsi', 'adx', 'mfi', 'obv', 'cmf', 'cci', 'roc', 'momentum', 'ma', 'supertrend', 'psar', 'ichimoku', 'vwap', 'pattern'
+    period?: number;         // Indicator period (default 14)
+    params?: any;            // Same shape as indicator_params
+    line?: string;           // State line to compare (e.g. 'k', 'macd'); main value by default
+    operator: ConditionOperator;
+    value?: number;          // Compare against a constant...
+    compareLine?: string;    // ...or against another line of the same indicator (e.g. 'd', 'signal')
+    timeframe?: string;      // Timeframe to evaluate on (multi-timeframe confluence); rule timeframe by default
+}
+
+/**
+ * Composite rule expression stored in alert_rule.conditions (JSON)
+ */
+export interface RuleExpression {
+    combinator: 'and' | 'or';
+    withinBars?: number;     // A condition counts as met if it held on any of the last N bars (default 1 = current bar)
+    conditions: RuleCondition[];
 }
 
 export interface AlertState {
@@ -27,6 +76,11 @@ export interface AlertState {
     last_fire_ts?: number;
     last_fire_bar_ts?: number;      // Bar timestamp when we last fired (one fire per candle when alert_on_close=false)
     last_side?: string;
+    was_above_upper?: number | null;  // Hysteresis: 1 = upper level crossed, disarmed until value <= upper - hysteresis
+    was_below_lower?: number | null;  // Hysteresis: 1 = lower level crossed, disarmed until value >= lower + hysteresis
+    deactivated_reason?: string | null;  // Why the engine deactivated the rule ('triggered' for one-shot rules)
+    deactivated_at?: number | null;
+    last_divergence_ts?: number | null;  // Divergence mode: timestamp of the last reported second pivot (0 = none yet)
     // Deprecated fields (kept for backward compatibility)
     last_rsi?: number;
     last_au?: number;
@@ -42,20 +96,163 @@ export interface AlertTrigger {
     timeframe?: string;      // Timeframe (e.g., '15m', '1h')
     source?: string;         // 'watchlist' or 'custom' - for notification differentiation
     level: number;
-    type: 'cross_up' | 'cross_down' | 'enter_zone' | 'exit_zone';
+    type: AlertTriggerType;
     timestamp: number;
     message: string;
+    conditionValues?: ConditionValue[];  // Composite rules: current value of each condition (same order as conditions)
+    divergence?: Divergence;  // Divergence mode: both pivots (for drawing divergence lines)
+    lines?: Record<string, number>;  // Line values at trigger (e.g. { k, d } for %K/%D crossover)
+    patterns?: CandlePattern[];  // Pattern mode: candlestick patterns found on the closed bar
+    oneShot?: boolean;       // Rule is one-shot (repeatable = 0): deactivate it once this alert is delivered
     // Deprecated (kept for backward compatibility)
     rsi?: number;
 }
 
+/**
+ * Current value of a composite rule condition on its timeframe
+ */
+export interface ConditionValue {
+    indicator: string;
+    timeframe: string;
+    value: number;
+}
+
+/**
+ * Divergence between price and indicator pivots
+ * bullish: price lower low, indicator higher low; bearish: price higher high, indicator lower high
+ */
+export interface Divergence {
+    type: 'bullish' | 'bearish';
+    startTs: number;      // First pivot bar timestamp
+    endTs: number;        // Second (latest) pivot bar timestamp
+    startPrice: number;
+    endPrice: number;
+    startValue: number;   // Indicator value at first pivot
+    endValue: number;     // Indicator value at second pivot
+}
+
+export type AlertTriggerType =
+    | 'cross_up' | 'cross_down' | 'enter_zone' | 'exit_zone'
+    // MACD line events
+    | 'signal_cross_up' | 'signal_cross_down'
+    | 'zero_cross_up' | 'zero_cross_down'
+    | 'histogram_positive' | 'histogram_negative'
+    // %K / %D crossover (Stochastic, StochRSI)
+    | 'kd_cross_up' | 'kd_cross_down'
+    // ADX / DMI: +DI crosses -DI
+    | 'di_cross_up' | 'di_cross_down'
+    // Bollinger Bands events (band_break also for VWAP bands)
+    | 'band_break_up' | 'band_break_down' | 'squeeze'
+    // Price crosses VWAP
+    | 'vwap_cross_up' | 'vwap_cross_down'
+    // Supertrend / Parabolic SAR direction flips
+    | 'trend_up' | 'trend_down'
+    // Ichimoku events: Tenkan/Kijun cross, price enters / leaves the cloud, cloud color twist
+    | 'tk_cross_up' | 'tk_cross_down'
+    | 'cloud_enter' | 'cloud_exit_up' | 'cloud_exit_down'
+    | 'twist_bullish' | 'twist_bearish'
+    // Moving-average crossover: fast line crosses above / below slow line
+    | 'golden_cross' | 'death_cross'
+    // Price alerts
+    | 'move_up' | 'move_down' | 'gap_up' | 'gap_down'
+    // OBV events
+    | 'slope_up' | 'slope_down' | 'breakout_up' | 'breakout_down'
+    // Price / indicator divergence
+    | 'bullish_divergence' | 'bearish_divergence'
+    // Candlestick patterns on the last closed bar (bias of the patterns found)
+    | 'pattern_bullish' | 'pattern_bearish' | 'pattern_neutral'
+    // Composite rules
+    | 'conditions_met';
+
 export interface CheckSymbolTimeframeResult {
     triggers: AlertTrigger[];
     cacheHit: boolean;  // true if data came from cache, false if fetched from Yahoo
 }
 
+/**
+ * Would-be trigger of a backtest replay (POST /alerts/backtest)
+ */
+export interface BacktestTrigger extends Omit<AlertTrigger, 'ruleId' | 'userId' | 'rsi'> {
+    barTs: number;  // Open timestamp of the bar the trigger fired on (timestamp = bar close)
+    close: number;  // Close price of that bar
+    forwardReturns: Record<string, number | null>;  // Bars ahead -> % change of close (null when not enough bars yet)
+}
+
+export interface BacktestResult {
+    bars: number;  // Closed bars in the date range the rule was evaluated on
+    coveredFrom: number | null;  // Open of the first of them; later than `from` when the provider has less history
+    triggers: BacktestTrigger[];
+    stats: {
+        count: number;
+        avgBarsBetween: number | null;  // Average bars between consecutive fired bars (null for fewer than 2)
+        avgForwardReturns: Record<string, number | null>;  // Bars ahead -> average % change over triggers
+    };
+}
+
+/**
+ * Incremental indicator calculation stored in alert_state.indicator_state (key `incremental`)
+ */
+interface IncrementalState {
+    key: string;                                     // Indicator, period and params the state was computed for
+    barTs: number;                                   // Last closed bar folded into calc
+    bar: number[];                                   // Its open/high/low/close (changed = history revised)
+    calc: any;                                       // Indicator calculation state after barTs (see registry incremental)
+    points: Array<{ value: number, state?: any }>;  // Indicator points of the last two closed bars
+}
+
+/**
+ * indicator_data series id: indicator and period, plus params JSON when set (the VWAP exchange timezone is left out)
+ * e.g. rsi:14, rsi:14:{"source":"hlc3"}
+ * Params are written in the registry's declared order (unknown names after, sorted) and nested objects with sorted
+ * keys, so the same params give the same id whatever order the client sent them in
+ */
+export function getSeriesKey(indicator: string, period: number, params?: any): string {
+    const { timezone, ...seriesParams } = params ?? {};
+    const declared = (getIndicator(indicator)?.params ?? []).map(spec => spec.name);
+    const names = [
+        ...declared.filter(name => name in seriesParams),
+        ...Object.keys(seriesParams).filter(name => !declared.includes(name)).sort(),
+    ];
+    const sortKeys = (value: any): any => value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.keys(value).sort().map(name => [name, sortKeys(value[name])]))
+        : value;
+    return names.length > 0
+        ? `${indicator}:${period}:${JSON.stringify(Object.fromEntries(names.map(name => [name, sortKeys(seriesParams[name])])))}`
+        : `${indicator}:${period}`;
+}
+
+// Latest bar stored in indicator_data per symbol|timeframe|series id; read from the table once per isolate
+const lastStoredSeriesBars = new Map<string, number>();
+
+/** Exchange timezone per symbol (for VWAP sessions); kept for the isolate lifetime, it doesn't change. */
+const exchangeTimezones = new Map<string, string>();
+
+// Bars the provider actually returned when asked for more (symbol|timeframe); the cache counts as complete at that
+// length for an hour instead of being refetched every run for history that doesn't exist
+const providerHistoryBars = new Map<string, { bars: number; checkedAt: number }>();
+const PROVIDER_HISTORY_TTL_MS = 60 * 60 * 1000;
+
+// Forward returns (backtest, alert_event performance): bars after the trigger bar
+export const FORWARD_RETURN_BARS = [1, 5, 20];
+
+// Expected price direction after a trigger, for performance hit rate. Level crossings depend on the indicator
+// (see getTriggerDirection); other types (zones, squeeze, cloud enter, neutral patterns, conditions) have none
+const BULLISH_TRIGGER_TYPES: AlertTriggerType[] = [
+    'signal_cross_up', 'zero_cross_up', 'histogram_positive', 'kd_cross_up', 'di_cross_up', 'band_break_up',
+    'vwap_cross_up', 'trend_up', 'tk_cross_up', 'cloud_exit_up', 'twist_bullish', 'golden_cross',
+    'move_up', 'gap_up', 'slope_up', 'breakout_up', 'bullish_divergence', 'pattern_bullish',
+];
+const BEARISH_TRIGGER_TYPES: AlertTriggerType[] = [
+    'signal_cross_down', 'zero_cross_down', 'histogram_negative', 'kd_cross_down', 'di_cross_down', 'band_break_down',
+    'vwap_cross_down', 'trend_down', 'tk_cross_down', 'cloud_exit_down', 'twist_bearish', 'death_cross',
+    'move_down', 'gap_down', 'slope_down', 'breakout_down', 'bearish_divergence', 'pattern_bearish',
+];
+
+// Alert events updated per performance job run (least recently updated first)
+const MAX_PERFORMANCE_EVENTS = 200;
+
 /** Timeframe duration in milliseconds (for excluding forming candle). */
-function getTimeframeMs(tf: string): number {
+export function getTimeframeMs(tf: string): number {
     const m: Record<string, number> = {
         '1m': 60 * 1000,
         '5m': 5 * 60 * 1000,
@@ -69,6 +266,17 @@ function getTimeframeMs(tf: string): number {
 }
 
 export class IndicatorEngine {
+    // Candles loaded during this run, keyed by symbol|timeframe (engine is created per cron run)
+    private runCandles = new Map<string, any[]>();
+    // Indicator series computed this run per candle set (forming or closed-only), keyed by indicator|period|params
+    private runSeries = new WeakMap<any[], Map<string, Array<{ value: number, state?: any }>>>();
+    // Closed-only copy of each candle set, so every rule on the pair gets the same array (and shares its series)
+    private closedCandleSets = new WeakMap<any[], any[]>();
+    // Rule indicator results (incremental or recomputed) per candle set and indicator/period/params key
+    private runIncremental = new WeakMap<any[], Map<string, { data: Array<{ value: number, state?: any }>; incremental?: IncrementalState }>>();
+    // Indicator series advanced from stored state vs recomputed from all candles; series computed vs reused from runSeries/runIncremental
+    readonly calculationStats = { incremental: 0, recomputed: 0, computed: 0, reused: 0 };
+
     constructor(
         private db: D1Database,
         private dataProviderService: DataProviderService
@@ -84,42 +292,54 @@ export class IndicatorEngine {
       ORDER BY created_at DESC
     `).all();
 
-        return result.results.map((row: any) => {
-            const parsedLevels = JSON.parse(row.levels || '[]');
-            // If levels is stored as array with null, convert to array with 2 elements [lower, upper]
-            // where null means disabled level. If stored as single array, keep as is for backward compatibility
-            let levelsWithNull: (number | null)[] = [];
-            if (Array.isArray(parsedLevels)) {
-                if (parsedLevels.length === 2 && (parsedLevels[0] === null || parsedLevels[1] === null || typeof parsedLevels[0] === 'number' || typeof parsedLevels[1] === 'number')) {
-                    // Already in [lower, upper] format with possible null
-                    levelsWithNull = parsedLevels;
+        return result.results.map((row: any) => this.parseRuleRow(row));
+    }
+
+    /**
+     * Alert rule from alert_rule row (JSON columns parsed, defaults for old rows)
+     */
+    parseRuleRow(row: any): AlertRule {
+        const parsedLevels = JSON.parse(row.levels || '[]');
+        // If levels is stored as array with null, convert to array with 2 elements [lower, upper]
+        // where null means disabled level. If stored as single array, keep as is for backward compatibility
+        let levelsWithNull: (number | null)[] = [];
+        if (Array.isArray(parsedLevels)) {
+            if (parsedLevels.length === 2 && (parsedLevels[0] === null || parsedLevels[1] === null || typeof parsedLevels[0] === 'number' || typeof parsedLevels[1] === 'number')) {
+                // Already in [lower, upper] format with possible null
+                levelsWithNull = parsedLevels;
+            } else {
+                // Old format: single array with enabled levels only
+                // Convert to [lower, upper] format (assume all are enabled)
+                if (parsedLevels.length === 1) {
+                    levelsWithNull = [parsedLevels[0], null]; // Assume single level is lower
+                } else if (parsedLevels.length >= 2) {
+                    levelsWithNull = [parsedLevels[0], parsedLevels[1]];
                 } else {
-                    // Old format: single array with enabled levels only
-                    // Convert to [lower, upper] format (assume all are enabled)
-                    if (parsedLevels.length === 1) {
-                        levelsWithNull = [parsedLevels[0], null]; // Assume single level is lower
-                    } else if (parsedLevels.length >= 2) {
-                        levelsWithNull = [parsedLevels[0], parsedLevels[1]];
-                    } else {
-                        levelsWithNull = [null, null];
-                    }
+                    levelsWithNull = [null, null];
                 }
             }
-            
-            return {
-                ...row,
-                indicator: row.indicator || 'rsi',  // Default to 'rsi' for backward compatibility
-                period: row.period || row.rsi_period || 14,  // Use period, fallback to rsi_period
-                indicator_params: row.indicator_params ? JSON.parse(row.indicator_params) : undefined,
-                levels: parsedLevels.filter((l: any): l is number => l !== null && l !== undefined), // Filter null for backward compatibility
-                levelsWithNull: levelsWithNull, // Store full array with null for processing
-                mode: row.mode || 'cross',
-                cooldown_sec: row.cooldown_sec || 600,
-                active: row.active !== undefined ? row.active : 1,
-                created_at: row.created_at || Date.now(),
-                alert_on_close: row.alert_on_close === 1 || row.alert_on_close === true,
-            };
-        }) as any[];
+        }
+        
+        return {
+            ...row,
+            indicator: row.indicator || 'rsi',  // Default to 'rsi' for backward compatibility
+            period: row.period || row.rsi_period || 14,  // Use period, fallback to rsi_period
+            indicator_params: row.indicator_params ? JSON.parse(row.indicator_params) : undefined,
+            conditions: row.conditions ? JSON.parse(row.conditions) : undefined,
+            filter: row.filter_condition ? JSON.parse(row.filter_condition) : undefined,
+            crossover: row.indicator === 'ma'
+                ? this.getMaCrossover(row.indicator_params ? JSON.parse(row.indicator_params) : undefined)
+                : undefined,
+            levels: parsedLevels.filter((l: any): l is number => l !== null && l !== undefined), // Filter null for backward compatibility
+            levelsWithNull: levelsWithNull, // Store full array with null for processing
+            mode: row.mode || 'cross',
+            hysteresis: typeof row.hysteresis === 'number' ? row.hysteresis : 0.5,
+            cooldown_sec: row.cooldown_sec || 600,
+            active: row.active !== undefined ? row.active : 1,
+            repeatable: row.repeatable === 0 ? 0 : 1,
+            created_at: row.created_at || Date.now(),
+            alert_on_close: row.alert_on_close === 1 || row.alert_on_close === true,
+        } as any;
     }
 
     /**
@@ -162,7 +382,7 @@ export class IndicatorEngine {
             // Check max period across all rules for this symbol/timeframe
             let maxPeriod = 0;  // Start from 0 to find actual max
             for (const rule of rules) {
-                const rulePeriod = rule.period || rule.rsi_period || 14;
+                const rulePeriod = this.getRequiredPeriod(rule);
                 if (rulePeriod > maxPeriod) {
                     maxPeriod = rulePeriod;
                 }
@@ -172,51 +392,11 @@ export class IndicatorEngine {
                 maxPeriod = 14;
             }
             
-            // Minimum candles required for indicators: period + buffer (20 for smoothing and charts)
-            const periodBuffer = maxPeriod + 20;
-            
-            // Base minimums per timeframe (reduced for 4h/1d as they're excessive)
-            let baseMinimum: number;
-            switch (timeframe) {
-                case '4h':
-                    baseMinimum = 100; // Same as other timeframes - period-based calculation handles large periods
-                    break;
-                case '1d':
-                    baseMinimum = 100; // Same as other timeframes - period-based calculation handles large periods
-                    break;
-                default:
-                    // 1m, 5m, 15m, 1h: base minimum for small periods (100 for charts and stability)
-                    baseMinimum = 100;
-                    break;
-            }
-            
-            // Return max of period requirement and base minimum
-            const candleLimit = periodBuffer > baseMinimum ? periodBuffer : baseMinimum;
-
-            // Check cache first
-            const cached = await this.dataProviderService.getCachedCandles(symbol, timeframe);
-            if (cached && cached.candles.length > 0) {
-                candles = cached.candles;
-                cacheHit = true;
-                console.log(`RSI Engine: Using cached candles from D1 for ${symbol} ${timeframe} (${candles.length} candles, provider=${cached.provider})`);
-            }
+            const candleLimit = this.getCandleLimit(timeframe, maxPeriod);
 
-            // If no cache or cache miss, fetch from provider (Binance for crypto, Yahoo otherwise)
-            if (candles.length === 0) {
-                try {
-                    const result = await this.dataProviderService.getCandles(symbol, timeframe, {
-                        limit: candleLimit
-                    });
-                    candles = result.candles;
-                    console.log(`RSI Engine: Fetched and cached ${candles.length} candles (limit=${candleLimit}, period=${maxPeriod}, provider=${result.provider}) in D1 for ${symbol} ${timeframe}`);
-                } catch (error: any) {
-                    // If rate limited (429), rethrow to trigger backoff in caller
-                    if (error?.message?.includes('429') || error?.status === 429) {
-                        throw new Error(`Rate limited: ${symbol} ${timeframe}`);
-                    }
-                    throw error;
-                }
-            }
+            const loaded = await this.loadCandles(symbol, timeframe, candleLimit);
+            candles = loaded.candles;
+            cacheHit = loaded.cacheHit;
 
             if (candles.length < 2) {
                 console.log(`Not enough candles for ${symbol} ${timeframe}`);
@@ -224,21 +404,18 @@ export class IndicatorEngine {
             }
 
             // Build closed-only set for "alert on close" rules. Others use full candles (incl. forming).
-            const tfMs = getTimeframeMs(timeframe);
-            const lastTs = candles[candles.length - 1]?.timestamp ?? 0;
-            const isForming = lastTs + tfMs > Date.now();
-            const candlesClosed = isForming && candles.length > 2
-                ? candles.slice(0, -1)
-                : candles;
+            const { candlesClosed, isForming } = this.getClosedCandles(candles, timeframe);
             if (isForming && candlesClosed.length < 2) {
                 console.log(`Not enough closed candles for ${symbol} ${timeframe} (dropped forming)`);
                 return { triggers, cacheHit };
             }
 
-            const anyCrossing = rules.some((r: any) => !r.alert_on_close);
+            // Pattern rules always run on closed candles
+            const anyCrossing = rules.some((r: any) => !r.alert_on_close && r.indicator !== 'pattern');
             const currentLastTimestamp = candlesClosed[candlesClosed.length - 1]?.timestamp;
 
-            // Skip only when ALL rules are "alert on close" and we've already processed this closed candle.
+            // Skip only when ALL rules are "alert on close" and we've already processed this closed candle
+            // (and the latest closed bar of every condition / filter timeframe, see getRuleBarTs).
             // If any rule uses crossing (forming), we never skip — process every run.
             if (!anyCrossing && currentLastTimestamp) {
                 let allProcessed = true;
@@ -246,7 +423,7 @@ export class IndicatorEngine {
                 for (const rule of rules) {
                     const state = await this.getAlertState(rule.id);
                     ruleStates.push({ rule, state });
-                    if (state.last_bar_ts !== currentLastTimestamp) {
+                    if (state.last_bar_ts !== await this.getRuleBarTs(rule, candlesClosed)) {
                         allProcessed = false;
                         break;
                     }
@@ -267,9 +444,18 @@ export class IndicatorEngine {
                 }
             }
 
+            // Session VWAP resets at the exchange-local day boundary
+            if (rules.some(rule => this.getRuleIndicators(rule).includes('vwap'))) {
+                const timezone = await this.getExchangeTimezone(symbol);
+                for (const rule of rules) {
+                    this.setVwapTimezone(rule, timezone);
+                }
+            }
+
+            const reusedBefore = this.calculationStats.reused;
             for (const rule of rules) {
                 try {
-                    const useClosed = !!(rule as any).alert_on_close;
+                    const useClosed = !!(rule as any).alert_on_close || rule.indicator === 'pattern';
                     const candleSet = useClosed ? candlesClosed : candles;
                     const ruleTriggers = await this.checkRule(rule, candleSet);
                     triggers.push(...ruleTriggers);
@@ -277,6 +463,12 @@ export class IndicatorEngine {
                     console.error(`Error checking rule ${rule.id}:`, error);
                 }
             }
+            await this.saveIndicatorSeries(symbol, timeframe, rules, candlesClosed);
+
+            const reused = this.calculationStats.reused - reusedBefore;
+            if (reused > 0) {
+                console.log(`RSI Engine: ${symbol} ${timeframe} - ${reused} indicator calculation(s) shared across ${rules.length} rules`);
+            }
 
         } catch (error) {
             console.error(`Error checking ${symbol} ${timeframe}:`, error);
@@ -285,6 +477,267 @@ export class IndicatorEngine {
         return { triggers, cacheHit };
     }
 
+    /**
+     * Store closed-bar values of the rules' indicator series in indicator_data (served by GET /indicators/series)
+     * Only bars newer than the latest stored bar are written, so a series is stored once per closed bar.
+     * Values are the full calculation over the closed candles; rules on incremental indicators (RSI, MACD) were
+     * checked against values advanced from stored state, which can differ slightly (see calculateRuleIndicator)
+     */
+    async saveIndicatorSeries(symbol: string, timeframe: string, rules: AlertRule[], candlesClosed: any[]): Promise<void> {
+        const lastClosedTs = candlesClosed[candlesClosed.length - 1]?.timestamp;
+        const seriesRules = new Map<string, AlertRule>();
+        for (const rule of rules) {
+            const indicator = rule.indicator || 'rsi';
+            if (rule.conditions || (VOLUME_INDICATORS.includes(indicator) && !this.hasVolume(candlesClosed))) {
+                continue;
+            }
+            seriesRules.set(getSeriesKey(indicator, rule.period || rule.rsi_period || 14, rule.indicator_params), rule);
+        }
+        if (seriesRules.size === 0 || !lastClosedTs) {
+            return;
+        }
+
+        try {
+            const pairKey = `${symbol}|${timeframe}|`;
+            if ([...seriesRules.keys()].some(seriesKey => !lastStoredSeriesBars.has(pairKey + seriesKey))) {
+                const stored = await this.db.prepare(`
+                  SELECT indicator, MAX(timestamp) as last_ts FROM indicator_data
+                  WHERE symbol = ? AND timeframe = ?
+                  GROUP BY indicator
+                `).bind(symbol, timeframe).all<{ indicator: string; last_ts: number }>();
+                for (const seriesKey of seriesRules.keys()) {
+                    lastStoredSeriesBars.set(pairKey + seriesKey, 0);
+                }
+                for (const row of stored.results || []) {
+                    lastStoredSeriesBars.set(pairKey + row.indicator, row.last_ts);
+                }
+            }
+
+            const statements: D1PreparedStatement[] = [];
+            const storedSeries: string[] = [];
+            for (const [seriesKey, rule] of seriesRules) {
+                const storedTs = lastStoredSeriesBars.get(pairKey + seriesKey) ?? 0;
+                if (storedTs >= lastClosedTs) {
+                    continue;
+                }
+                storedSeries.push(seriesKey);
+                const series = this.getIndicatorSeries(candlesClosed, rule.indicator || 'rsi', rule.period || rule.rsi_period || 14, rule.indicator_params);
+                // Series is aligned with the end of the candles
+                const offset = candlesClosed.length - series.length;
+                series.forEach((point, i) => {
+                    const candle = candlesClosed[offset + i];
+                    if (candle.timestamp > storedTs && isFinite(point.value)) {
+                        statements.push(this.db.prepare(`
+                          INSERT OR REPLACE INTO indicator_data (symbol, timeframe, indicator, timestamp, value, close, state)
+                          VALUES (?, ?, ?, ?, ?, ?, ?)
+                        `).bind(symbol, timeframe, seriesKey, candle.timestamp, point.value, candle.close, point.state ? JSON.stringify(point.state) : null));
+                    }
+                });
+            }
+
+            // D1 batches run as one transaction; keep them small
+            const BATCH_SIZE = 100;
+            for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+                await this.db.batch(statements.slice(i, i + BATCH_SIZE));
+            }
+            for (const seriesKey of storedSeries) {
+                lastStoredSeriesBars.set(pairKey + seriesKey, lastClosedTs);
+            }
+            if (statements.length > 0) {
+                console.log(`RSI Engine: Stored ${statements.length} indicator values for ${symbol} ${timeframe}`);
+            }
+        } catch (error) {
+            console.error(`Error storing indicator series for ${symbol} ${timeframe}:`, error);
+        }
+    }
+
+    /**
+     * Candle limit for timeframe: max of period requirement and base minimum
+     */
+    getCandleLimit(timeframe: string, maxPeriod: number): number {
+        // Minimum candles required for indicators: period + buffer (20 for smoothing and charts)
+        const periodBuffer = maxPeriod + 20;
+        
+        // Base minimums per timeframe (reduced for 4h/1d as they're excessive)
+        let baseMinimum: number;
+        switch (timeframe) {
+            case '4h':
+                baseMinimum = 100; // Same as other timeframes - period-based calculation handles large periods
+                break;
+            case '1d':
+                baseMinimum = 100; // Same as other timeframes - period-based calculation handles large periods
+                break;
+            default:
+                // 1m, 5m, 15m, 1h: base minimum for small periods (100 for charts and stability)
+                baseMinimum = 100;
+                break;
+        }
+        
+        // Return max of period requirement and base minimum
+        return periodBuffer > baseMinimum ? periodBuffer : baseMinimum;
+    }
+
+    /**
+     * Exchange timezone of symbol from provider symbol info (UTC if unknown or the lookup fails)
+     */
+    async getExchangeTimezone(symbol: string): Promise<string> {
+        const known = exchangeTimezones.get(symbol);
+        if (known) {
+            return known;
+        }
+        try {
+            const { info } = await this.dataProviderService.getSymbolInfo(symbol);
+            const timezone = info.timezone || 'UTC';
+            exchangeTimezones.set(symbol, timezone);
+            return timezone;
+        } catch (error) {
+            console.warn(`RSI Engine: Could not get exchange timezone for ${symbol}, using UTC for VWAP sessions:`, error);
+            return 'UTC';
+        }
+    }
+
+    /**
+     * Indicators used by rule (main indicator, composite conditions, filter)
+     */
+    getRuleIndicators(rule: AlertRule): string[] {
+        const indicators = [rule.indicator || 'rsi'];
+        indicators.push(...(rule.conditions?.conditions || []).map(condition => condition.indicator));
+        if (rule.filter) {
+            indicators.push(rule.filter.indicator);
+        }
+        return indicators;
+    }
+
+    /**
+     * Pass exchange timezone to every VWAP calculation of rule (as indicator params `timezone`)
+     */
+    setVwapTimezone(rule: AlertRule, timezone: string): void {
+        if ((rule.indicator || 'rsi') === 'vwap') {
+            rule.indicator_params = { ...(rule.indicator_params as any), timezone } as any;
+        }
+        for (const condition of [...(rule.conditions?.conditions || []), ...(rule.filter ? [rule.filter] : [])]) {
+            if (condition.indicator === 'vwap') {
+                condition.params = { ...condition.params, timezone };
+            }
+        }
+    }
+
+    /**
+     * Load candles - use DataProviderService (handles cache, Binance for crypto, Yahoo fallback)
+     * Candles loaded for other timeframes (multi-timeframe rules) are kept for the rest of the run
+     */
+    async loadCandles(symbol: string, timeframe: string, candleLimit: number): Promise<{ candles: any[]; cacheHit: boolean }> {
+        const runKey = `${symbol}|${timeframe}`;
+        const loadedThisRun = this.runCandles.get(runKey);
+        if (loadedThisRun && loadedThisRun.length >= candleLimit) {
+            return { candles: loadedThisRun, cacheHit: true };
+        }
+
+        let candles: any[] = [];
+        let cacheHit = false;
+
+        // Provider returned fewer bars recently: that is all the history there is, don't refetch for more
+        const knownHistory = providerHistoryBars.get(runKey);
+        const availableLimit = knownHistory && Date.now() - knownHistory.checkedAt < PROVIDER_HISTORY_TTL_MS
+            ? Math.min(candleLimit, knownHistory.bars)
+            : candleLimit;
+
+        // Check cache first
+        // Long lookbacks (e.g. SMA 200) need more candles than the shared cache may hold - refetch then
+        const needsLongHistory = availableLimit > this.getCandleLimit(timeframe, 0);
+        const cached = await this.dataProviderService.getCachedCandles(symbol, timeframe);
+        if (cached && cached.candles.length > 0) {
+            if (!needsLongHistory || cached.candles.length >= availableLimit) {
+                candles = cached.candles;
+                cacheHit = true;
+                console.log(`RSI Engine: Using cached candles from D1 for ${symbol} ${timeframe} (${candles.length} candles, provider=${cached.provider})`);
+            } else {
+                console.log(`RSI Engine: Cached candles too short for ${symbol} ${timeframe} (${cached.candles.length} < ${candleLimit}), refetching`);
+            }
+        }
+
+        // If no cache or cache miss, fetch from provider (Binance for crypto, Yahoo otherwise)
+        if (candles.length === 0) {
+            try {
+                const result = await this.dataProviderService.getCandles(symbol, timeframe, {
+                    limit: candleLimit,
+                    skipCache: cached !== null && cached.candles.length > 0,
+                });
+                candles = result.candles;
+                console.log(`RSI Engine: Fetched and cached ${candles.length} candles (limit=${candleLimit}, provider=${result.provider}) in D1 for ${symbol} ${timeframe}`);
+                if (needsLongHistory && candles.length < candleLimit) {
+                    providerHistoryBars.set(runKey, { bars: candles.length, checkedAt: Date.now() });
+                    console.warn(`RSI Engine: Provider returned ${candles.length} of ${candleLimit} candles for ${symbol} ${timeframe}, not refetching for more for 1h`);
+                }
+            } catch (error: any) {
+                // If rate limited (429), rethrow to trigger backoff in caller
+                if (error?.message?.includes('429') || error?.status === 429) {
+                    throw new Error(`Rate limited: ${symbol} ${timeframe}`);
+                }
+                throw error;
+            }
+        }
+
+        this.runCandles.set(runKey, candles);
+        return { candles, cacheHit };
+    }
+
+    /**
+     * Long history for one-off reads (backtests, event performance): taken from this run or the D1 cache when long enough, otherwise
+     * fetched without writing the cache, so the cron's shared candle sets are left as they are
+     */
+    async loadHistory(symbol: string, timeframe: string, candleLimit: number): Promise<any[]> {
+        const loadedThisRun = this.runCandles.get(`${symbol}|${timeframe}`);
+        if (loadedThisRun && loadedThisRun.length >= candleLimit) {
+            return loadedThisRun;
+        }
+        const cached = await this.dataProviderService.getCachedCandles(symbol, timeframe);
+        if (cached && cached.candles.length >= candleLimit) {
+            return cached.candles;
+        }
+        const result = await this.dataProviderService.getCandles(symbol, timeframe, { limit: candleLimit, readOnly: true });
+        console.log(`RSI Engine: Fetched ${result.candles.length} history candles (limit=${candleLimit}, provider=${result.provider}) for ${symbol} ${timeframe}`);
+        return result.candles;
+    }
+
+    /**
+     * Drop forming candle (if any) to get closed-only set for "alert on close" rules
+     */
+    getClosedCandles(candles: any[], timeframe: string): { candlesClosed: any[]; isForming: boolean } {
+        const tfMs = getTimeframeMs(timeframe);
+        const lastTs = candles[candles.length - 1]?.timestamp ?? 0;
+        const isForming = lastTs + tfMs > Date.now();
+        if (!isForming || candles.length <= 2) {
+            return { candlesClosed: candles, isForming };
+        }
+        let candlesClosed = this.closedCandleSets.get(candles);
+        if (!candlesClosed) {
+            candlesClosed = candles.slice(0, -1);
+            this.closedCandleSets.set(candles, candlesClosed);
+        }
+        return { candlesClosed, isForming };
+    }
+
+    /**
+     * Index of the last candle closed by closeTs (-1 if none)
+     */
+    findLastClosedIndex(candles: any[], timeframe: string, closeTs: number): number {
+        const tfMs = getTimeframeMs(timeframe);
+        let low = 0;
+        let high = candles.length - 1;
+        let found = -1;
+        while (low <= high) {
+            const middle = (low + high) >> 1;
+            if (candles[middle].timestamp + tfMs <= closeTs) {
+                found = middle;
+                low = middle + 1;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return found;
+    }
+
     /**
      * Check specific rule (universal for all indicators)
      */
@@ -295,23 +748,46 @@ export class IndicatorEngine {
             // Get rule state
             const state = await this.getAlertState(rule.id);
 
+            // Composite rules evaluate several conditions instead of one indicator vs levels
+            if (rule.conditions) {
+                triggers.push(...await this.checkCompositeRule(rule, candles, state));
+                console.log(`Rule ${rule.id}: total triggers collected ${triggers.length}`);
+                return triggers;
+            }
+
             // Determine indicator type and period
             const indicator = rule.indicator || 'rsi';
             const period = rule.period || rule.rsi_period || 14;
 
-            // Calculate indicator value(s)
-            const indicatorData = this.calculateIndicator(candles, indicator, period, rule.indicator_params);
+            // Volume indicators can't be computed when provider reports no volume (e.g. forex =X symbols)
+            if (VOLUME_INDICATORS.includes(indicator) && !this.hasVolume(candles)) {
+                console.log(`Rule ${rule.id}: no volume data for ${rule.symbol} ${rule.timeframe} (provider reports zero volume), skipping ${indicator.toUpperCase()}`);
+                return triggers;
+            }
+
+            // Calculate indicator value(s) - incrementally from stored state where the indicator supports it
+            const { data: indicatorData, incremental } = this.calculateRuleIndicator(rule, candles, state);
 
             if (indicatorData.length < 2) {
                 console.log(`Rule ${rule.id}: not enough indicator data (size=${indicatorData.length})`);
                 return triggers;
             }
 
-            const currentValue = indicatorData[indicatorData.length - 1].value;
+            const currentPoint = indicatorData[indicatorData.length - 1];
+            const currentValue = currentPoint.value;
             const isFirstCheck = state.last_indicator_value === undefined && state.last_rsi === undefined;
             const previousValue = state.last_indicator_value ?? state.last_rsi ?? indicatorData[indicatorData.length - 2].value;
+            // Line values (e.g. MACD/signal) from the previous run, for line crossover modes
+            const previousState = this.getPreviousIndicatorState(state, indicatorData);
             console.log(`Rule ${rule.id} (${rule.symbol} ${rule.timeframe}) ${indicator.toUpperCase()}(${period})=${currentValue.toFixed(2)}, previous=${previousValue.toFixed(2)}, candles=${candles.length}, levels=${rule.levels}, mode=${rule.mode}, cooldown=${rule.cooldown_sec}, firstCheck=${isFirstCheck}`);
 
+            // Divergence mode compares price pivots with indicator pivots instead of levels
+            if (rule.mode === 'divergence') {
+                triggers.push(...await this.checkDivergenceRule(rule, candles, indicatorData, state, currentValue));
+                console.log(`Rule ${rule.id}: total triggers collected ${triggers.length}`);
+                return triggers;
+            }
+
             // On first check, don't send notifications - just initialize the state
             // This prevents spam notifications when alerts are first created
             const ruleTriggers = isFirstCheck ? [] : this.checkCrossings(
@@ -319,7 +795,10 @@ export class IndicatorEngine {
                 currentValue,
                 previousValue,
                 Date.now(),
-                indicator
+                indicator,
+                currentPoint.state,
+                previousState,
+                state
             );
             if (ruleTriggers.length === 0 && !isFirstCheck) {
                 console.log(`Rule ${rule.id}: no trigger this run`);
@@ -331,47 +810,22 @@ export class IndicatorEngine {
             const stateUpdates: Partial<AlertState> = {
                 last_indicator_value: currentValue,
                 last_rsi: currentValue,  // Keep for backward compatibility
-                last_bar_ts: candles[candles.length - 1].timestamp,
+                last_bar_ts: await this.getRuleBarTs(rule, candles),
             };
 
-            // Save indicator state if available (for incremental calculations)
-            if (indicatorData.length > 0 && indicatorData[0].state) {
-                stateUpdates.indicator_state = JSON.stringify(indicatorData[0].state);
-            }
-
-            if (ruleTriggers.length > 0) {
-                // Check cooldown
-                const canFireCooldown = this.checkCooldown(rule, state);
-                const currentBarTs = candles[candles.length - 1].timestamp;
-
-                // When alert_on_close is false: only one fire per candle (reduce noise on forming candle)
-                const useFormingCandle = !(rule as any).alert_on_close;
-                const sameCandleAlreadyFired = useFormingCandle &&
-                    state.last_fire_bar_ts !== undefined &&
-                    state.last_fire_bar_ts === currentBarTs;
-                const canFire = canFireCooldown && !sameCandleAlreadyFired;
-
-                if (sameCandleAlreadyFired) {
-                    console.log(`Rule ${rule.id}: same candle already fired (bar_ts=${currentBarTs}), skipping`);
-                }
-                console.log(`Rule ${rule.id}: cooldown check -> ${canFireCooldown}, canFire -> ${canFire}`);
-
-                if (canFire) {
-                    // Save state with fire timestamp and bar timestamp
-                    stateUpdates.last_fire_ts = Date.now();
-                    stateUpdates.last_fire_bar_ts = currentBarTs;
-                    stateUpdates.last_side = this.getIndicatorZone(currentValue, rule.levels);
-
-                    // Save events
-                    for (const trigger of ruleTriggers) {
-                        await this.saveAlertEvent(rule.id, trigger);
-                    }
+            // Track hysteresis arming per level (persisted so oscillation around a level doesn't re-fire)
+            Object.assign(stateUpdates, this.getHysteresisUpdates(rule, currentValue, state));
 
-                    triggers.push(...ruleTriggers);
-                }
-                // Even if cooldown/same-candle blocks firing, update indicator state to prevent duplicate detection
+            // Save latest indicator state if available (line values for crossover modes on next run)
+            // plus the calculation state to continue from next run
+            if (currentPoint.state || incremental) {
+                stateUpdates.indicator_state = JSON.stringify({ ...currentPoint.state, ...(incremental ? { incremental } : {}) });
             }
 
+            // Even if cooldown/same-candle blocks firing, indicator state is updated below to prevent duplicate detection
+            const filteredTriggers = await this.applyFilter(rule, candles, ruleTriggers);
+            triggers.push(...await this.fireTriggers(rule, state, candles, filteredTriggers, stateUpdates, currentValue));
+
             // Update state regardless of whether triggers fired
             await this.updateAlertState(rule.id, stateUpdates);
 
@@ -384,182 +838,1795 @@ export class IndicatorEngine {
     }
 
     /**
-     * Calculate indicator value(s) - universal method for all indicators
-     * Returns array of objects with {value: number, state?: any}
+     * Check divergence rule: fires once per new second pivot (stored in last_divergence_ts).
+     * First run only records the latest divergence so existing ones are not reported.
      */
-    calculateIndicator(candles: any[], indicator: string, period: number, indicatorParams?: any): Array<{ value: number, state?: any }> {
-        switch (indicator.toLowerCase()) {
-            case 'rsi':
-                return this.calculateRsi(candles, period).map(v => ({ value: v }));
-            case 'stoch':
-                return this.calculateStochastic(candles, period, indicatorParams);
-            case 'williams':
-                return this.calculateWilliams(candles, period).map(v => ({ value: v }));
-            default:
-                // Default to RSI for unknown indicators
-                return this.calculateRsi(candles, period).map(v => ({ value: v }));
+    async checkDivergenceRule(
+        rule: AlertRule,
+        candles: any[],
+        indicatorData: Array<{ value: number, state?: any }>,
+        state: AlertState,
+        currentValue: number
+    ): Promise<AlertTrigger[]> {
+        const indicator = rule.indicator || 'rsi';
+        const indicatorName = indicator.toUpperCase();
+        // Pivots on closed candles only: a pivot confirmed by the forming bar can vanish when it closes
+        const { candlesClosed } = this.getClosedCandles(candles, rule.timeframe);
+        const closedData = indicatorData.slice(0, indicatorData.length - (candles.length - candlesClosed.length));
+        const divergence = this.detectDivergence(candlesClosed, closedData, rule.indicator_params);
+        const isFirstCheck = state.last_divergence_ts === undefined || state.last_divergence_ts === null;
+        const lastDivergenceTs = state.last_divergence_ts ?? 0;
+        console.log(`Rule ${rule.id} (${rule.symbol} ${rule.timeframe}) ${indicatorName} divergence=${divergence ? `${divergence.type} ${divergence.startTs}->${divergence.endTs}` : 'none'}, last=${lastDivergenceTs}, firstCheck=${isFirstCheck}`);
+
+        const ruleTriggers: AlertTrigger[] = [];
+        if (!isFirstCheck && divergence && divergence.endTs > lastDivergenceTs) {
+            const priceText = divergence.type === 'bullish' ? 'lower low' : 'higher high';
+            const indicatorText = divergence.type === 'bullish' ? 'higher low' : 'lower high';
+            const trigger = this.buildTrigger(rule, indicator, divergence.endValue, 0, `${divergence.type}_divergence`, Date.now(),
+                `${divergence.type === 'bullish' ? 'Bullish' : 'Bearish'} ${indicatorName} divergence: price ${priceText} (${Number(divergence.startPrice.toPrecision(6))} -> ${Number(divergence.endPrice.toPrecision(6))}), ${indicatorName} ${indicatorText} (${divergence.startValue.toFixed(1)} -> ${divergence.endValue.toFixed(1)})`);
+            trigger.divergence = divergence;
+            ruleTriggers.push(trigger);
         }
+
+        const stateUpdates: Partial<AlertState> = {
+            last_indicator_value: currentValue,
+            last_rsi: currentValue,  // Keep for backward compatibility
+            last_bar_ts: await this.getRuleBarTs(rule, candles),
+            last_divergence_ts: Math.max(lastDivergenceTs, divergence?.endTs ?? 0),
+        };
+
+        const filteredTriggers = await this.applyFilter(rule, candles, ruleTriggers);
+        const triggers = await this.fireTriggers(rule, state, candles, filteredTriggers, stateUpdates, currentValue);
+        await this.updateAlertState(rule.id, stateUpdates);
+
+        return triggers;
     }
 
     /**
-     * Calculate RSI using Wilder's algorithm
+     * Check composite rule: conditions combined with AND/OR, optionally within last N bars.
+     * Fires when the combined result turns true (stored as 1/0 in last_indicator_value).
      */
-    calculateRsi(candles: any[], period: number): number[] {
-        if (candles.length < period + 1) {
+    async checkCompositeRule(rule: AlertRule, candles: any[], state: AlertState): Promise<AlertTrigger[]> {
+        const expression = rule.conditions!;
+        const candlesByTimeframe = await this.loadConditionCandles(rule, candles, expression.conditions);
+        const evaluation = this.evaluateExpression(expression, candlesByTimeframe, rule.timeframe);
+        if (!evaluation) {
+            console.log(`Rule ${rule.id}: not enough indicator data for conditions`);
             return [];
         }
 
-        const closes = candles.map(c => c.close);
-        const rsiValues: number[] = [];
-
-        // Initial calculation
-        let gain = 0, loss = 0;
-        for (let i = 1; i <= period; i++) {
-            const change = closes[i] - closes[i - 1];
-            if (change > 0) gain += change;
-            else loss -= change;
+        const currentValue = evaluation.met ? 1 : 0;
+        const isFirstCheck = state.last_indicator_value === undefined || state.last_indicator_value === null;
+        const previousValue = state.last_indicator_value ?? 0;
+        console.log(`Rule ${rule.id} (${rule.symbol} ${rule.timeframe}) conditions=${this.describeExpression(expression)}, met=${evaluation.met}, previous=${previousValue}, firstCheck=${isFirstCheck}`);
+
+        const ruleTriggers: AlertTrigger[] = [];
+        if (!isFirstCheck && evaluation.met && previousValue !== 1) {
+            const firstValue = evaluation.values[0]?.value ?? 0;
+            const trigger = this.buildTrigger(rule, 'composite', firstValue, 0, 'conditions_met', Date.now(),
+                `Conditions met: ${this.describeExpression(expression)}`);
+            trigger.conditionValues = evaluation.values;
+            ruleTriggers.push(trigger);
         }
 
-        let au = gain / period;
-        let ad = loss / period;
+        const stateUpdates: Partial<AlertState> = {
+            last_indicator_value: currentValue,
+            last_bar_ts: await this.getRuleBarTs(rule, candles),
+        };
 
-        // Incremental calculation
-        for (let i = period + 1; i < closes.length; i++) {
-            const change = closes[i] - closes[i - 1];
-            const u = change > 0 ? change : 0;
-            const d = change < 0 ? -change : 0;
+        const triggers = await this.fireTriggers(rule, state, candles, ruleTriggers, stateUpdates, currentValue);
+        await this.updateAlertState(rule.id, stateUpdates);
 
-            au = (au * (period - 1) + u) / period;
-            ad = (ad * (period - 1) + d) / period;
+        return triggers;
+    }
 
-            const rs = ad === 0 ? Infinity : au / ad;
-            const rsi = 100 - (100 / (1 + rs));
-            rsiValues.push(Math.max(0, Math.min(100, rsi)));
+    /**
+     * Candles for every timeframe used by rule conditions (rule timeframe included).
+     * Extra timeframes go through the same D1 candle cache; closed candles only for alert_on_close rules.
+     */
+    async loadConditionCandles(rule: AlertRule, candles: any[], conditions: RuleCondition[]): Promise<Record<string, any[]>> {
+        const candlesByTimeframe: Record<string, any[]> = { [rule.timeframe]: candles };
+        const requiredPeriod = this.getRequiredPeriod(rule);
+
+        for (const condition of conditions) {
+            const timeframe = condition.timeframe || rule.timeframe;
+            if (candlesByTimeframe[timeframe]) {
+                continue;
+            }
+            const loaded = await this.loadCandles(rule.symbol, timeframe, this.getCandleLimit(timeframe, requiredPeriod));
+            candlesByTimeframe[timeframe] = (rule as any).alert_on_close
+                ? this.getClosedCandles(loaded.candles, timeframe).candlesClosed
+                : loaded.candles;
         }
 
-        return rsiValues;
+        return candlesByTimeframe;
     }
 
     /**
-     * Calculate Stochastic Oscillator (%K and %D)
-     * Supports Slow Stochastic with slowPeriod and smoothPeriod (like Flutter UI)
+     * Latest bar the rule is evaluated on (last_bar_ts, for the "already processed" skip): newest bar across the rule
+     * timeframe and condition / filter timeframes, so a new closed bar on a condition timeframe is evaluated too
      */
-    calculateStochastic(candles: any[], kPeriod: number, params?: any): Array<{ value: number, state?: any }> {
-        // Use defaultParams like Flutter UI does (IndicatorType.stoch.defaultParams)
-        // Default: slowPeriod=3, dPeriod=6, smoothPeriod=3
-        const defaultParams = {
-            slowPeriod: 3,
-            dPeriod: 6,
-            smoothPeriod: 3
-        };
-        
-        const dPeriod = params?.dPeriod ?? defaultParams.dPeriod;
-        const slowPeriod = params?.slowPeriod ?? defaultParams.slowPeriod; // %K smoothing period for Slow Stochastic
-        const smoothPeriod = params?.smoothPeriod ?? defaultParams.smoothPeriod; // %D smoothing period
-        
-        // Use Slow Stochastic if slowPeriod is provided and > 1
-        const useSlowStochastic = slowPeriod != null && slowPeriod > 1;
-        const slowPeriodValue = slowPeriod ?? 1;
-        const minDataRequired = useSlowStochastic
-            ? kPeriod + slowPeriodValue + dPeriod - 2
-            : kPeriod + dPeriod - 1;
+    async getRuleBarTs(rule: AlertRule, candles: any[]): Promise<number> {
+        const conditions = [...(rule.conditions?.conditions || []), ...(rule.filter ? [rule.filter] : [])];
+        const candlesByTimeframe = await this.loadConditionCandles(rule, candles, conditions);
+        return Math.max(...Object.values(candlesByTimeframe).map(timeframeCandles => timeframeCandles[timeframeCandles.length - 1]?.timestamp ?? 0));
+    }
 
-        if (candles.length < minDataRequired) {
+    /**
+     * Drop triggers when the rule filter doesn't hold (e.g. RSI alerts only while ADX < 25)
+     * State is still updated by the caller, so a filtered crossing is consumed, not delayed
+     */
+    async applyFilter(rule: AlertRule, candles: any[], ruleTriggers: AlertTrigger[]): Promise<AlertTrigger[]> {
+        if (!rule.filter || ruleTriggers.length === 0) {
+            return ruleTriggers;
+        }
+
+        const expression: RuleExpression = { combinator: 'and', conditions: [rule.filter] };
+        const candlesByTimeframe = await this.loadConditionCandles(rule, candles, expression.conditions);
+        const evaluation = this.evaluateExpression(expression, candlesByTimeframe, rule.timeframe);
+        if (!evaluation || !evaluation.met) {
+            console.log(`Rule ${rule.id}: filter ${this.describeExpression(expression)} not met (value=${evaluation?.values[0]?.value}), dropping ${ruleTriggers.length} trigger(s)`);
             return [];
         }
 
-        const highs = candles.map(c => c.high);
-        const lows = candles.map(c => c.low);
-        const closes = candles.map(c => c.close);
-        
-        // Step 1: Calculate raw %K values (Fast Stochastic %K)
-        const rawKValues: number[] = [];
-        for (let i = kPeriod - 1; i < candles.length; i++) {
-            const periodHighs = highs.slice(i - kPeriod + 1, i + 1);
-            const periodLows = lows.slice(i - kPeriod + 1, i + 1);
+        return ruleTriggers;
+    }
 
-            const highestHigh = Math.max(...periodHighs);
-            const lowestLow = Math.min(...periodLows);
-            const close = closes[i];
+    /**
+     * Evaluate composite expression on the latest bar of each condition's timeframe
+     * (with closeTs: on the last bar of each timeframe closed by then - backtest replay)
+     * Returns null when any condition lacks indicator data
+     */
+    evaluateExpression(
+        expression: RuleExpression,
+        candlesByTimeframe: Record<string, any[]>,
+        defaultTimeframe: string,
+        closeTs?: number
+    ): { met: boolean; values: ConditionValue[] } | null {
+        const withinBars = Math.max(1, expression.withinBars ?? 1);
+        const results: boolean[] = [];
+        const values: ConditionValue[] = [];
+
+        for (const condition of expression.conditions) {
+            const timeframe = condition.timeframe || defaultTimeframe;
+            // Patterns are detected on closed candles only (the forming bar can still change shape)
+            const timeframeCandles = candlesByTimeframe[timeframe] || [];
+            const seriesCandles = condition.indicator === 'pattern' ? this.getClosedCandles(timeframeCandles, timeframe).candlesClosed : timeframeCandles;
+            const series = this.getIndicatorSeries(
+                seriesCandles,
+                condition.indicator,
+                condition.period || 14,
+                condition.params
+            );
+            // Series is aligned to the end of candles
+            const end = closeTs === undefined
+                ? series.length - 1
+                : this.findLastClosedIndex(seriesCandles, timeframe, closeTs) - (seriesCandles.length - series.length);
+            // Crossing operators need the bar before the window
+            if (end < withinBars) {
+                return null;
+            }
 
-            if (highestHigh === lowestLow) {
-                rawKValues.push(50.0);
-            } else {
-                const k = ((close - lowestLow) / (highestHigh - lowestLow)) * 100.0;
-                rawKValues.push(Math.max(0, Math.min(100, k)));
+            let conditionMet = false;
+            for (let offset = 0; offset < withinBars; offset++) {
+                const index = end - offset;
+                if (this.evaluateCondition(condition, series[index], series[index - 1])) {
+                    conditionMet = true;
+                    break;
+                }
             }
+            results.push(conditionMet);
+            values.push({
+                indicator: condition.indicator,
+                timeframe,
+                value: this.getConditionLineValue(series[end], condition.line),
+            });
         }
 
-        if (rawKValues.length === 0) {
+        const met = expression.combinator === 'or'
+            ? results.some(r => r)
+            : results.every(r => r);
+
+        return { met, values };
+    }
+
+    /**
+     * Evaluate single condition on a bar (previous bar is used by crossing operators)
+     */
+    evaluateCondition(
+        condition: RuleCondition,
+        point: { value: number, state?: any },
+        previousPoint: { value: number, state?: any }
+    ): boolean {
+        const current = this.getConditionLineValue(point, condition.line);
+        const previous = this.getConditionLineValue(previousPoint, condition.line);
+        const target = condition.compareLine !== undefined
+            ? this.getConditionLineValue(point, condition.compareLine)
+            : condition.value ?? 0;
+        const previousTarget = condition.compareLine !== undefined
+            ? this.getConditionLineValue(previousPoint, condition.compareLine)
+            : condition.value ?? 0;
+
+        if (!isFinite(current) || !isFinite(target)) {
+            return false;
+        }
+
+        switch (condition.operator) {
+            case 'above':
+                return current > target;
+            case 'below':
+                return current < target;
+            case 'crosses_above':
+                return this.checkCrossUp(current - target, previous - previousTarget, 0);
+            case 'crosses_below':
+                return this.checkCrossDown(current - target, previous - previousTarget, 0);
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Value of a line of an indicator point (main value when line is not set)
+     */
+    getConditionLineValue(point: { value: number, state?: any }, line?: string): number {
+        if (!line || line === 'value') {
+            return point.value;
+        }
+        const value = point.state?.[line];
+        return typeof value === 'number' ? value : NaN;
+    }
+
+    /**
+     * Human-readable expression, e.g. "RSI(14) < 30 AND STOCH(14) k crossed above d"
+     * Conditions on another timeframe are suffixed with it, e.g. "RSI(14) < 30 AND RSI(14) < 40 [4h]"
+     */
+    describeExpression(expression: RuleExpression): string {
+        const operatorText: Record<ConditionOperator, string> = {
+            above: '>',
+            below: '<',
+            crosses_above: 'crossed above',
+            crosses_below: 'crossed below',
+        };
+        const parts = expression.conditions.map(condition => {
+            const name = `${condition.indicator.toUpperCase()}(${condition.period || 14})${condition.line ? ` ${condition.line}` : ''}`;
+            const target = condition.compareLine ?? condition.value;
+            const timeframeText = condition.timeframe ? ` [${condition.timeframe}]` : '';
+            return `${name} ${operatorText[condition.operator] ?? condition.operator} ${target}${timeframeText}`;
+        });
+        const withinText = (expression.withinBars ?? 1) > 1 ? ` within ${expression.withinBars} bars` : '';
+        return parts.join(expression.combinator === 'or' ? ' OR ' : ' AND ') + withinText;
+    }
+
+    /**
+     * Fire triggers if cooldown and one-fire-per-candle allow it
+     * Saves events, fills fire fields in stateUpdates and marks triggers of one-shot rules
+     * (the cron deactivates those after delivery, see deactivateRule)
+     */
+    async fireTriggers(
+        rule: AlertRule,
+        state: AlertState,
+        candles: any[],
+        ruleTriggers: AlertTrigger[],
+        stateUpdates: Partial<AlertState>,
+        currentValue: number
+    ): Promise<AlertTrigger[]> {
+        const triggers: AlertTrigger[] = [];
+        if (ruleTriggers.length === 0) {
+            return triggers;
+        }
+
+        // Check cooldown
+        const canFireCooldown = this.checkCooldown(rule, state);
+        const currentBarTs = candles[candles.length - 1].timestamp;
+
+        // When alert_on_close is false: only one fire per candle (reduce noise on forming candle)
+        const useFormingCandle = !(rule as any).alert_on_close;
+        const sameCandleAlreadyFired = useFormingCandle &&
+            state.last_fire_bar_ts !== undefined &&
+            state.last_fire_bar_ts === currentBarTs;
+        const canFire = canFireCooldown && !sameCandleAlreadyFired;
+
+        if (sameCandleAlreadyFired) {
+            console.log(`Rule ${rule.id}: same candle already fired (bar_ts=${currentBarTs}), skipping`);
+        }
+        console.log(`Rule ${rule.id}: cooldown check -> ${canFireCooldown}, canFire -> ${canFire}`);
+
+        if (canFire) {
+            // Save state with fire timestamp and bar timestamp
+            stateUpdates.last_fire_ts = Date.now();
+            stateUpdates.last_fire_bar_ts = currentBarTs;
+            stateUpdates.last_side = this.getIndicatorZone(currentValue, rule.levels);
+
+            // Save events
+            for (const trigger of ruleTriggers) {
+                await this.saveAlertEvent(rule.id, trigger, currentBarTs);
+            }
+
+            // One-shot rule: stays active until the notification is delivered,
+            // an undelivered trigger leaves it armed for the next crossing
+            if (rule.repeatable === 0) {
+                for (const trigger of ruleTriggers) {
+                    trigger.oneShot = true;
+                }
+            }
+
+            triggers.push(...ruleTriggers);
+        }
+
+        return triggers;
+    }
+
+    /**
+     * Replay closed bars opened in [from, to) through the rule (POST /alerts/backtest).
+     * Same crossing, hysteresis, filter, cooldown and one-shot logic as the cron, checked once per closed bar:
+     * bars before the range only warm up indicator and hysteresis state, cooldown is measured in bar time and
+     * triggers are stamped with the bar close. Rules without alert_on_close are checked on the forming bar by
+     * the cron, so live alerts can fire earlier within the bar (or on a crossing that reverts before close).
+     */
+    async backtestRule(rule: AlertRule, from: number, to: number): Promise<BacktestResult> {
+        const indicator = rule.indicator || 'rsi';
+        const period = rule.period || rule.rsi_period || 14;
+        const tfMs = getTimeframeMs(rule.timeframe);
+        const requiredPeriod = this.getRequiredPeriod(rule);
+        // Warm-up before the range plus everything up to now (forward returns look past the range)
+        const getHistoryLimit = (timeframe: string) =>
+            Math.ceil((Date.now() - from) / getTimeframeMs(timeframe)) + this.getCandleLimit(timeframe, requiredPeriod);
+
+        const loaded = await this.loadHistory(rule.symbol, rule.timeframe, getHistoryLimit(rule.timeframe));
+        const candles = this.getClosedCandles(loaded, rule.timeframe).candlesClosed;
+
+        if (this.getRuleIndicators(rule).includes('vwap')) {
+            this.setVwapTimezone(rule, await this.getExchangeTimezone(rule.symbol));
+        }
+
+        // Closed candles of every timeframe used by conditions / filter
+        const candlesByTimeframe: Record<string, any[]> = { [rule.timeframe]: candles };
+        for (const condition of [...(rule.conditions?.conditions || []), ...(rule.filter ? [rule.filter] : [])]) {
+            const timeframe = condition.timeframe || rule.timeframe;
+            if (!candlesByTimeframe[timeframe]) {
+                const conditionCandles = await this.loadHistory(rule.symbol, timeframe, getHistoryLimit(timeframe));
+                candlesByTimeframe[timeframe] = this.getClosedCandles(conditionCandles, timeframe).candlesClosed;
+            }
+        }
+
+        const triggers: BacktestTrigger[] = [];
+        const firedBars: number[] = [];
+        let bars = 0;
+        let coveredFrom: number | null = null;
+        const hasData = !VOLUME_INDICATORS.includes(indicator) || this.hasVolume(candles);
+        if (!hasData) {
+            console.log(`Backtest: no volume data for ${rule.symbol} ${rule.timeframe}, skipping ${indicator.toUpperCase()}`);
+        }
+
+        // Simulated alert_state, carried from bar to bar
+        const data = rule.conditions || !hasData ? [] : this.getIndicatorSeries(candles, indicator, period, rule.indicator_params);
+        const offset = candles.length - data.length;
+        const state: AlertState = { rule_id: rule.id };
+        const { pivotLookback, maxPivotDistance } = this.getDivergenceParams(rule.indicator_params);
+        const divergenceWindow = maxPivotDistance + pivotLookback * 2 + 1;
+        let lastDivergenceTs = 0;
+        let previousMet: number | undefined;
+        let lastFireTs: number | null = null;
+
+        for (let index = 1; index < candles.length && hasData; index++) {
+            const bar = candles[index];
+            if (bar.timestamp >= to) {
+                break;
+            }
+            const closeTs = bar.timestamp + tfMs;
+            const inRange = bar.timestamp >= from;
+            let barTriggers: AlertTrigger[] = [];
+
+            if (rule.conditions) {
+                // Composite: fires when the combined result turns true
+                const evaluation = this.evaluateExpression(rule.conditions, candlesByTimeframe, rule.timeframe, closeTs);
+                if (!evaluation) {
+                    continue;
+                }
+                if (evaluation.met && previousMet !== undefined && previousMet !== 1) {
+                    const trigger = this.buildTrigger(rule, 'composite', evaluation.values[0]?.value ?? 0, 0, 'conditions_met', closeTs,
+                        `Conditions met: ${this.describeExpression(rule.conditions)}`);
+                    trigger.conditionValues = evaluation.values;
+                    barTriggers.push(trigger);
+                }
+                previousMet = evaluation.met ? 1 : 0;
+            } else {
+                const dataIndex = index - offset;
+                if (dataIndex < 1) {
+                    continue;
+                }
+                const point = data[dataIndex];
+                const previousPoint = data[dataIndex - 1];
+
+                if (rule.mode === 'divergence') {
+                    // Pivots of the latest divergence lie within the window ending at this bar
+                    const start = Math.max(offset, index + 1 - divergenceWindow);
+                    const divergence = this.detectDivergence(
+                        candles.slice(start, index + 1),
+                        data.slice(start - offset, dataIndex + 1),
+                        rule.indicator_params
+                    );
+                    if (divergence && divergence.endTs > lastDivergenceTs) {
+                        const indicatorName = indicator.toUpperCase();
+                        const priceText = divergence.type === 'bullish' ? 'lower low' : 'higher high';
+                        const indicatorText = divergence.type === 'bullish' ? 'higher low' : 'lower high';
+                        const trigger = this.buildTrigger(rule, indicator, divergence.endValue, 0, `${divergence.type}_divergence`, closeTs,
+                            `${divergence.type === 'bullish' ? 'Bullish' : 'Bearish'} ${indicatorName} divergence: price ${priceText} (${Number(divergence.startPrice.toPrecision(6))} -> ${Number(divergence.endPrice.toPrecision(6))}), ${indicatorName} ${indicatorText} (${divergence.startValue.toFixed(1)} -> ${divergence.endValue.toFixed(1)})`);
+                        trigger.divergence = divergence;
+                        barTriggers.push(trigger);
+                        lastDivergenceTs = divergence.endTs;
+                    }
+                } else {
+                    barTriggers = this.checkCrossings(rule, point.value, previousPoint.value, closeTs, indicator, point.state, previousPoint.state, state);
+                    Object.assign(state, this.getHysteresisUpdates(rule, point.value, state));
+                }
+
+                // Filtered crossings are consumed, as in applyFilter
+                if (rule.filter && barTriggers.length > 0) {
+                    const evaluation = this.evaluateExpression({ combinator: 'and', conditions: [rule.filter] }, candlesByTimeframe, rule.timeframe, closeTs);
+                    if (!evaluation || !evaluation.met) {
+                        barTriggers = [];
+                    }
+                }
+            }
+
+            if (inRange) {
+                bars++;
+                coveredFrom ??= bar.timestamp;
+            }
+            if (!inRange || barTriggers.length === 0) {
+                continue;
+            }
+            if (lastFireTs !== null && closeTs - lastFireTs < rule.cooldown_sec * 1000) {
+                continue;
+            }
+
+            lastFireTs = closeTs;
+            firedBars.push(index);
+            const forwardReturns = this.getForwardReturns(candles, index);
+            for (const { ruleId: _ruleId, userId: _userId, rsi: _rsi, ...trigger } of barTriggers) {
+                triggers.push({ ...trigger, barTs: bar.timestamp, close: bar.close, forwardReturns });
+            }
+
+            // One-shot rule: deactivated after first fire
+            if (rule.repeatable === 0) {
+                break;
+            }
+        }
+
+        const avgForwardReturns: Record<string, number | null> = {};
+        for (const barsAhead of FORWARD_RETURN_BARS) {
+            const returns = triggers
+                .map(trigger => trigger.forwardReturns[barsAhead])
+                .filter((value): value is number => value !== null);
+            avgForwardReturns[barsAhead] = returns.length > 0 ? returns.reduce((sum, value) => sum + value, 0) / returns.length : null;
+        }
+
+        return {
+            bars,
+            coveredFrom,
+            triggers,
+            stats: {
+                count: triggers.length,
+                avgBarsBetween: firedBars.length > 1 ? (firedBars[firedBars.length - 1] - firedBars[0]) / (firedBars.length - 1) : null,
+                avgForwardReturns,
+            },
+        };
+    }
+
+    /**
+     * % change of close from candle at index to FORWARD_RETURN_BARS bars later (null past the last candle)
+     */
+    getForwardReturns(candles: any[], index: number): Record<string, number | null> {
+        const close = candles[index].close;
+        const forwardReturns: Record<string, number | null> = {};
+        for (const barsAhead of FORWARD_RETURN_BARS) {
+            const later = candles[index + barsAhead];
+            forwardReturns[barsAhead] = later && close ? (later.close / close - 1) * 100 : null;
+        }
+        return forwardReturns;
+    }
+
+    /**
+     * Indicator series for rule check.
+     * Indicators with an incremental calculation (registry) continue from the state stored in indicator_state:
+     * newly closed bars advance it and the forming bar is computed on top, so the series holds only the last two
+     * stored bars and the bars of this run. Full recompute (and new state) when there is no usable state:
+     * first run, period/params changed, stored bar no longer in candles, or its prices were revised.
+     * Rules on the same candles with the same indicator, period and params share the first rule's result within
+     * a run (and all store that state), like getIndicatorSeries. Incremental values differ from a full recompute
+     * over the candle window only by the window's seed, a difference that decays by the smoothing factor each bar
+     * and doesn't accumulate across runs (RSI 14 over the 100-candle window: under 0.1 points, see tests).
+     */
+    calculateRuleIndicator(rule: AlertRule, candles: any[], state: AlertState): { data: Array<{ value: number, state?: any }>; incremental?: IncrementalState } {
+        const indicator = rule.indicator || 'rsi';
+        const period = rule.period || rule.rsi_period || 14;
+        const params = rule.indicator_params;
+        const calculation = getIndicator(indicator)?.incremental;
+        // Divergence looks for pivots over the whole series
+        if (!calculation || rule.mode === 'divergence' || (calculation.supports && !calculation.supports(params))) {
+            return { data: this.getIndicatorSeries(candles, indicator, period, params) };
+        }
+
+        const key = JSON.stringify([indicator, period, params ?? null]);
+        let resultsByKey = this.runIncremental.get(candles);
+        if (!resultsByKey) {
+            resultsByKey = new Map();
+            this.runIncremental.set(candles, resultsByKey);
+        }
+        const shared = resultsByKey.get(key);
+        if (shared) {
+            this.calculationStats.reused++;
+            return shared;
+        }
+        const result = this.calculateIncrementalSeries(rule.timeframe, candles, state, key, calculation, indicator, period, params);
+        resultsByKey.set(key, result);
+        return result;
+    }
+
+    /**
+     * Incremental series from stored state, or full recompute with a new state (see calculateRuleIndicator)
+     */
+    calculateIncrementalSeries(
+        timeframe: string,
+        candles: any[],
+        state: AlertState,
+        key: string,
+        calculation: IncrementalCalculation,
+        indicator: string,
+        period: number,
+        params: any
+    ): { data: Array<{ value: number, state?: any }>; incremental?: IncrementalState } {
+        const { candlesClosed } = this.getClosedCandles(candles, timeframe);
+        const formingCandle = candlesClosed.length < candles.length ? candles[candles.length - 1] : null;
+        const lastClosed = candlesClosed[candlesClosed.length - 1];
+
+        const stored = this.getStoredIncrementalState(state, key);
+        const storedIndex = stored ? candlesClosed.findIndex(candle => candle.timestamp === stored.barTs) : -1;
+        if (stored && storedIndex >= 0 && this.getBarPrices(candlesClosed[storedIndex]).every((price, i) => price === stored.bar[i])) {
+            let calc = stored.calc;
+            const closedPoints = [...stored.points];
+            for (const candle of candlesClosed.slice(storedIndex + 1)) {
+                const next = calculation.step(this, calc, candle, period, params);
+                calc = next.calc;
+                closedPoints.push(next.point);
+            }
+            const data = formingCandle
+                ? [...closedPoints, calculation.step(this, calc, formingCandle, period, params).point]
+                : closedPoints;
+            this.calculationStats.incremental++;
+            return {
+                data,
+                incremental: { key, barTs: lastClosed.timestamp, bar: this.getBarPrices(lastClosed), calc, points: closedPoints.slice(-2) },
+            };
+        }
+
+        const data = this.getIndicatorSeries(candles, indicator, period, params);
+        this.calculationStats.recomputed++;
+        const calc = calculation.seed(this, candlesClosed, period, params);
+        const closedPoints = data.slice(0, formingCandle ? -1 : undefined).slice(-2);
+        if (calc === null || closedPoints.length < 2) {
+            return { data };
+        }
+        return { data, incremental: { key, barTs: lastClosed.timestamp, bar: this.getBarPrices(lastClosed), calc, points: closedPoints } };
+    }
+
+    /**
+     * Incremental calculation state from the previous run, if computed for the same indicator, period and params
+     */
+    getStoredIncrementalState(state: AlertState, key: string): IncrementalState | null {
+        if (!state.indicator_state) {
+            return null;
+        }
+        try {
+            const incremental = JSON.parse(state.indicator_state)?.incremental;
+            return incremental?.key === key && Array.isArray(incremental.points) && incremental.points.length === 2 ? incremental : null;
+        } catch {
+            return null;
+        }
+    }
+
+    getBarPrices(candle: any): number[] {
+        return [candle.open, candle.high, candle.low, candle.close];
+    }
+
+    /**
+     * Get line values from the previous run (stored indicator_state).
+     * Falls back to the previous bar when nothing usable is stored (e.g. legacy au/ad state).
+     */
+    getPreviousIndicatorState(state: AlertState, indicatorData: Array<{ value: number, state?: any }>): any {
+        const currentState = indicatorData[indicatorData.length - 1].state;
+        const barState = indicatorData[indicatorData.length - 2]?.state;
+        if (!currentState || !state.indicator_state) {
+            return barState;
+        }
+        try {
+            // Line values only (incremental calculation state is stored alongside)
+            const { incremental, ...stored } = JSON.parse(state.indicator_state) ?? {};
+            const hasAllKeys = Object.keys(currentState).every(key => typeof stored[key] === 'number');
+            return hasAllKeys ? stored : barState;
+        } catch {
+            return barState;
+        }
+    }
+
+    /**
+     * Number of bars an indicator needs to look back (used for candle limit)
+     */
+    getRequiredPeriod(rule: AlertRule): number {
+        const indicator = (rule.indicator || 'rsi').toLowerCase();
+        const period = rule.period || rule.rsi_period || 14;
+        const params: any = rule.indicator_params || {};
+
+        // Filter is evaluated on the same candles (+1 bar for crossing operators)
+        if (rule.filter) {
+            const filterPeriod = this.getRequiredPeriod({
+                ...rule,
+                indicator: rule.filter.indicator,
+                period: rule.filter.period || 14,
+                indicator_params: rule.filter.params,
+                mode: 'cross',
+                filter: undefined,
+            });
+            return Math.max(this.getRequiredPeriod({ ...rule, filter: undefined }), filterPeriod + 1);
+        }
+
+        // Divergence needs room for two pivots on top of the indicator warm-up
+        if (rule.mode === 'divergence') {
+            const { pivotLookback, maxPivotDistance } = this.getDivergenceParams(params);
+            return this.getRequiredPeriod({ ...rule, mode: 'cross' }) + maxPivotDistance + pivotLookback * 2;
+        }
+
+        if (indicator === 'composite') {
+            const conditions = rule.conditions?.conditions || [];
+            const withinBars = rule.conditions?.withinBars ?? 1;
+            let maxPeriod = 0;
+            for (const condition of conditions) {
+                const conditionPeriod = this.getRequiredPeriod({
+                    ...rule,
+                    indicator: condition.indicator,
+                    period: condition.period || 14,
+                    indicator_params: condition.params,
+                    conditions: undefined,
+                });
+                maxPeriod = Math.max(maxPeriod, conditionPeriod);
+            }
+            return (maxPeriod || period) + withinBars;
+        }
+
+        // Indicator warm-up from the registry
+        const definition = getIndicator(indicator);
+        return definition ? definition.warmupBars(this, period, params, getTimeframeMs(rule.timeframe)) : period;
+    }
+
+    /**
+     * Indicator series for candle set, computed once per run: rules on the same pair with identical
+     * indicator, period and params (e.g. watchlist RSI(14) rules) share it. Callers must not modify it.
+     */
+    getIndicatorSeries(candles: any[], indicator: string, period: number, indicatorParams?: any): Array<{ value: number, state?: any }> {
+        const key = JSON.stringify([indicator.toLowerCase(), period, indicatorParams ?? null]);
+        let seriesByKey = this.runSeries.get(candles);
+        if (!seriesByKey) {
+            seriesByKey = new Map();
+            this.runSeries.set(candles, seriesByKey);
+        }
+        const cached = seriesByKey.get(key);
+        if (cached) {
+            this.calculationStats.reused++;
+            return cached;
+        }
+        const series = this.calculateIndicator(candles, indicator, period, indicatorParams);
+        this.calculationStats.computed++;
+        seriesByKey.set(key, series);
+        return series;
+    }
+
+    /**
+     * Calculate indicator value(s) - universal method for all indicators
+     * Returns array of objects with {value: number, state?: any}
+     */
+    calculateIndicator(candles: any[], indicator: string, period: number, indicatorParams?: any): Array<{ value: number, state?: any }> {
+        const definition = getIndicator(indicator);
+        if (!definition) {
+            // Default to RSI for unknown indicators
+            return this.calculateRsi(candles, period).map(v => ({ value: v }));
+        }
+        return definition.calculate(this, candles, period, indicatorParams);
+    }
+
+    /**
+     * Calculate RSI (Wilder's algorithm by default)
+     * params.smoothing: 'wilder' (RMA, default) | 'ema' | 'sma' (Cutler's RSI) - same as TradingView options
+     * params.source: price source (see getSourceValues)
+     */
+    calculateRsi(candles: any[], period: number, params?: any): number[] {
+        if (candles.length < period + 1) {
+            return [];
+        }
+
+        const { gains, averageGains, averageLosses } = this.calculateRsiAverages(candles, period, params);
+        const rsiValues: number[] = [];
+
+        // First averaged bar only seeds the smoothing (values start at bar period + 1)
+        for (let i = period; i < gains.length; i++) {
+            rsiValues.push(this.getRsiFromAverages(averageGains[i], averageLosses[i]));
+        }
+
+        return rsiValues;
+    }
+
+    /**
+     * Gains / losses per bar (index i = change from bar i to bar i + 1) and their smoothed averages
+     */
+    calculateRsiAverages(candles: any[], period: number, params?: any): { closes: number[]; gains: number[]; averageGains: number[]; averageLosses: number[] } {
+        const closes = this.getSourceValues(candles, params?.source);
+        const gains: number[] = [];
+        const losses: number[] = [];
+        for (let i = 1; i < closes.length; i++) {
+            const change = closes[i] - closes[i - 1];
+            gains.push(change > 0 ? change : 0);
+            losses.push(change < 0 ? -change : 0);
+        }
+
+        switch (params?.smoothing) {
+            case 'sma':
+                return { closes, gains, averageGains: this.calculateSma(gains, period), averageLosses: this.calculateSma(losses, period) };
+            case 'ema':
+                return { closes, gains, averageGains: this.calculateEma(gains, period), averageLosses: this.calculateEma(losses, period) };
+            default:
+                return { closes, gains, averageGains: this.calculateRma(gains, period), averageLosses: this.calculateRma(losses, period) };
+        }
+    }
+
+    getRsiFromAverages(au: number, ad: number): number {
+        const rs = ad === 0 ? Infinity : au / ad;
+        const rsi = 100 - (100 / (1 + rs));
+        return Math.max(0, Math.min(100, rsi));
+    }
+
+    /**
+     * RSI calculation state after the last candle: previous source value and Wilder / EMA averages (au/ad)
+     * Null until the first RSI value (same warm-up as calculateRsi)
+     */
+    getRsiCalcState(candles: any[], period: number, params?: any): { prev: number; au: number; ad: number } | null {
+        if (candles.length < period + 2) {
+            return null;
+        }
+        const { closes, averageGains, averageLosses } = this.calculateRsiAverages(candles, period, params);
+        const au = averageGains[averageGains.length - 1];
+        const ad = averageLosses[averageLosses.length - 1];
+        if (!isFinite(au) || !isFinite(ad)) {
+            return null;
+        }
+        return { prev: closes[closes.length - 1], au, ad };
+    }
+
+    /**
+     * Advance RSI calculation state by one bar
+     */
+    stepRsi(calc: { prev: number; au: number; ad: number }, candle: any, period: number, params?: any): { point: { value: number }, calc: { prev: number; au: number; ad: number } } {
+        const value = this.getSourceValues([candle], params?.source)[0];
+        const change = value - calc.prev;
+        const gain = change > 0 ? change : 0;
+        const loss = change < 0 ? -change : 0;
+        // Same recursion as calculateEma / calculateRma
+        const k = 2 / (period + 1);
+        const au = params?.smoothing === 'ema' ? gain * k + calc.au * (1 - k) : (calc.au * (period - 1) + gain) / period;
+        const ad = params?.smoothing === 'ema' ? loss * k + calc.ad * (1 - k) : (calc.ad * (period - 1) + loss) / period;
+        return { point: { value: this.getRsiFromAverages(au, ad) }, calc: { prev: value, au, ad } };
+    }
+
+    /**
+     * Calculate Stochastic Oscillator (%K and %D)
+     * Supports Slow Stochastic with slowPeriod and smoothPeriod (like Flutter UI)
+     * params.source replaces close (see getSourceValues)
+     */
+    calculateStochastic(candles: any[], kPeriod: number, params?: any): Array<{ value: number, state?: any }> {
+        // Use defaultParams like Flutter UI does (IndicatorType.stoch.defaultParams)
+        // Default: slowPeriod=3, dPeriod=6, smoothPeriod=3
+        const defaultParams = {
+            slowPeriod: 3,
+            dPeriod: 6,
+            smoothPeriod: 3
+        };
+        
+        const dPeriod = params?.dPeriod ?? defaultParams.dPeriod;
+        const slowPeriod = params?.slowPeriod ?? defaultParams.slowPeriod; // %K smoothing period for Slow Stochastic
+        const smoothPeriod = params?.smoothPeriod ?? defaultParams.smoothPeriod; // %D smoothing period
+        
+        // Use Slow Stochastic if slowPeriod is provided and > 1
+        const useSlowStochastic = slowPeriod != null && slowPeriod > 1;
+        const slowPeriodValue = slowPeriod ?? 1;
+        const minDataRequired = useSlowStochastic
+            ? kPeriod + slowPeriodValue + dPeriod - 2
+            : kPeriod + dPeriod - 1;
+
+        if (candles.length < minDataRequired) {
+            return [];
+        }
+
+        const highs = candles.map(c => c.high);
+        const lows = candles.map(c => c.low);
+        const closes = this.getSourceValues(candles, params?.source);
+        
+        // Step 1: Calculate raw %K values (Fast Stochastic %K)
+        const rawKValues: number[] = [];
+        for (let i = kPeriod - 1; i < candles.length; i++) {
+            const periodHighs = highs.slice(i - kPeriod + 1, i + 1);
+            const periodLows = lows.slice(i - kPeriod + 1, i + 1);
+
+            const highestHigh = Math.max(...periodHighs);
+            const lowestLow = Math.min(...periodLows);
+            const close = closes[i];
+
+            if (highestHigh === lowestLow) {
+                rawKValues.push(50.0);
+            } else {
+                const k = ((close - lowestLow) / (highestHigh - lowestLow)) * 100.0;
+                rawKValues.push(Math.max(0, Math.min(100, k)));
+            }
+        }
+
+        if (rawKValues.length === 0) {
+            return [];
+        }
+
+        // Step 2: Apply Slow Stochastic smoothing if needed
+        // Smooth %K with SMA(slowPeriod) to get Slow Stochastic %K
+        let kValues: number[] = rawKValues;
+        if (useSlowStochastic) {
+            kValues = [];
+            // Calculate SMA of rawKValues with period slowPeriodValue
+            for (let i = slowPeriodValue - 1; i < rawKValues.length; i++) {
+                const periodValues = rawKValues.slice(i - slowPeriodValue + 1, i + 1);
+                const smoothedK = periodValues.reduce((a, b) => a + b, 0) / slowPeriodValue;
+                kValues.push(Math.max(0, Math.min(100, smoothedK)));
+            }
+        }
+
+        if (kValues.length === 0) {
+            return [];
+        }
+
+        // Step 3: Calculate %D values as SMA of (smoothed) %K
+        let dValues: number[] = [];
+        for (let i = dPeriod - 1; i < kValues.length; i++) {
+            const dPeriodValues = kValues.slice(i - dPeriod + 1, i + 1);
+            const d = dPeriodValues.reduce((a, b) => a + b, 0) / dPeriod;
+            dValues.push(Math.max(0, Math.min(100, d)));
+        }
+
+        // Step 4: Apply additional smoothing to %D if smoothPeriod is provided
+        if (smoothPeriod != null && smoothPeriod > 1) {
+            const smoothedDValues: number[] = [];
+            for (let i = smoothPeriod - 1; i < dValues.length; i++) {
+                const periodValues = dValues.slice(i - smoothPeriod + 1, i + 1);
+                const smoothedD = periodValues.reduce((a, b) => a + b, 0) / smoothPeriod;
+                smoothedDValues.push(Math.max(0, Math.min(100, smoothedD)));
+            }
+            dValues = smoothedDValues;
+        }
+
+        if (dValues.length === 0) {
+            return [];
+        }
+
+        // Step 5: Build results aligned with candles
+        // Calculate offsets to align with candle indices
+        const slowOffset = useSlowStochastic ? (slowPeriodValue - 1) : 0;
+        const smoothOffset = (smoothPeriod != null && smoothPeriod > 1) ? (smoothPeriod - 1) : 0;
+        const firstCandleIndex = kPeriod + slowOffset + dPeriod - 2 + smoothOffset;  // Same as Flutter StochasticService
+
+        const result: Array<{ value: number, state?: any }> = [];
+        for (let i = 0; i < dValues.length; i++) {
+            const candleIndex = firstCandleIndex + i;
+            if (candleIndex >= candles.length) break;
+
+            // The %K value that corresponds to this %D value
+            const kIndexInSmoothed = dPeriod - 1 + smoothOffset + i;
+            if (kIndexInSmoothed >= kValues.length) break;
+
+            // For display, use smoothed %K for Slow Stochastic (which is what Yahoo Finance shows)
+            // For Fast Stochastic, use raw %K
+            const displayK = useSlowStochastic 
+                ? kValues[kIndexInSmoothed]  // Use smoothed %K for Slow Stochastic
+                : (kIndexInSmoothed < rawKValues.length 
+                    ? rawKValues[kIndexInSmoothed] 
+                    : kValues[kIndexInSmoothed]);
+
+            result.push({
+                value: displayK,  // Use %K as main value (same as Flutter UI)
+                state: { k: displayK, d: dValues[i] }  // Store both %K and %D in state
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Calculate Stochastic RSI (same as TradingView Stoch RSI)
+     * RSI(period) -> Stochastic of RSI over stochPeriod -> %K = SMA(kSmoothing), %D = SMA(%K, dSmoothing)
+     * params: stochPeriod (14), kSmoothing (3), dSmoothing (3), plus RSI smoothing/source
+     */
+    calculateStochRsi(candles: any[], rsiPeriod: number, params?: any): Array<{ value: number, state?: any }> {
+        const stochPeriod = params?.stochPeriod ?? 14;
+        const kSmoothing = params?.kSmoothing ?? 3;
+        const dSmoothing = params?.dSmoothing ?? 3;
+
+        const rsiValues = this.calculateRsi(candles, rsiPeriod, params);
+
+        // RSI as candles (high = low = close) so stochastic range is taken over RSI values
+        const offset = candles.length - rsiValues.length;
+        const rsiCandles = rsiValues.map((rsi, i) => ({
+            timestamp: candles[offset + i].timestamp,
+            open: rsi,
+            high: rsi,
+            low: rsi,
+            close: rsi,
+        }));
+
+        return this.calculateStochastic(rsiCandles, stochPeriod, {
+            slowPeriod: kSmoothing,
+            dPeriod: dSmoothing,
+            smoothPeriod: 1,
+        });
+    }
+
+    /**
+     * Calculate Williams %R (Williams Percent Range)
+     * Formula: %R = ((Highest High - Close) / (Highest High - Lowest Low)) × -100
+     * Values range from -100 to 0
+     * params.source replaces close (see getSourceValues)
+     */
+    calculateWilliams(candles: any[], period: number, params?: any): number[] {
+        if (candles.length < period) {
+        return [];
+    }
+
+        const highs = candles.map(c => c.high);
+        const lows = candles.map(c => c.low);
+        const closes = this.getSourceValues(candles, params?.source);
+        const williamsValues: number[] = [];
+
+        // Calculate Williams %R starting from index period - 1
+        for (let i = period - 1; i < candles.length; i++) {
+            // Get high and low values for the period
+            const periodHighs = highs.slice(i - period + 1, i + 1);
+            const periodLows = lows.slice(i - period + 1, i + 1);
+            const close = closes[i];
+
+            const highestHigh = Math.max(...periodHighs);
+            const lowestLow = Math.min(...periodLows);
+
+            let williams: number;
+            if (highestHigh === lowestLow) {
+                // Avoid division by zero - use -50 as neutral value
+                williams = -50.0;
+            } else {
+                williams = ((highestHigh - close) / (highestHigh - lowestLow)) * -100.0;
+                williams = Math.max(-100.0, Math.min(0.0, williams));
+            }
+
+            williamsValues.push(williams);
+        }
+
+        return williamsValues;
+    }
+
+    /**
+     * Price source series (TradingView source names)
+     * close (default), hl2, hlc3, ohlc4, ha_close (Heikin-Ashi close = average of open, high, low, close)
+     */
+    getSourceValues(candles: any[], source?: string): number[] {
+        switch (source) {
+            case 'hl2':
+                return candles.map(c => (c.high + c.low) / 2);
+            case 'hlc3':
+                return candles.map(c => (c.high + c.low + c.close) / 3);
+            case 'ohlc4':
+            case 'ha_close':
+                return candles.map(c => (c.open + c.high + c.low + c.close) / 4);
+            default:
+                return candles.map(c => c.close);
+        }
+    }
+
+    /**
+     * Calculate RMA series (Wilder's smoothing, TradingView ta.rma): seeded with SMA of the first window
+     * Result is aligned with input: values before the first full window are NaN
+     */
+    calculateRma(values: number[], period: number): number[] {
+        const result: number[] = new Array(values.length).fill(NaN);
+        if (period < 1 || values.length < period) {
+            return result;
+        }
+
+        let rma = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+        result[period - 1] = rma;
+        for (let i = period; i < values.length; i++) {
+            rma = (rma * (period - 1) + values[i]) / period;
+            result[i] = rma;
+        }
+
+        return result;
+    }
+
+    /**
+     * Calculate SMA series
+     * Result is aligned with input: values before the first full window are NaN
+     */
+    calculateSma(values: number[], period: number): number[] {
+        const result: number[] = new Array(values.length).fill(NaN);
+        if (period < 1 || values.length < period) {
+            return result;
+        }
+
+        let sum = 0;
+        for (let i = 0; i < values.length; i++) {
+            sum += values[i];
+            if (i >= period) {
+                sum -= values[i - period];
+            }
+            if (i >= period - 1) {
+                result[i] = sum / period;
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Calculate EMA series (seeded with SMA of the first `period` values)
+     * Result is aligned with input: values before the seed are NaN
+     */
+    calculateEma(values: number[], period: number): number[] {
+        const result: number[] = new Array(values.length).fill(NaN);
+        if (period < 1 || values.length < period) {
+            return result;
+        }
+
+        const k = 2 / (period + 1);
+        let ema = values.slice(0, period).reduce((a, b) => a + b, 0) / period;
+        result[period - 1] = ema;
+        for (let i = period; i < values.length; i++) {
+            ema = values[i] * k + ema * (1 - k);
+            result[i] = ema;
+        }
+
+        return result;
+    }
+
+    /**
+     * Calculate WMA series (linear weights, latest bar has weight = period)
+     * Result is aligned with input: NaN until the window has only finite values
+     */
+    calculateWma(values: number[], period: number): number[] {
+        const result: number[] = new Array(values.length).fill(NaN);
+        if (period < 1) {
+            return result;
+        }
+
+        const weightSum = (period * (period + 1)) / 2;
+        for (let i = period - 1; i < values.length; i++) {
+            let sum = 0;
+            for (let j = 0; j < period; j++) {
+                sum += values[i - j] * (period - j);
+            }
+            result[i] = sum / weightSum;
+        }
+
+        return result;
+    }
+
+    /**
+     * Calculate HMA series (Hull): WMA(2 * WMA(n / 2) - WMA(n), sqrt(n)), same as TradingView ta.hma
+     */
+    calculateHma(values: number[], period: number): number[] {
+        const halfWma = this.calculateWma(values, Math.max(1, Math.floor(period / 2)));
+        const fullWma = this.calculateWma(values, period);
+        const raw = values.map((_, i) => 2 * halfWma[i] - fullWma[i]);
+        return this.calculateWma(raw, Math.max(1, Math.floor(Math.sqrt(period))));
+    }
+
+    /**
+     * Moving average series by type (NaN-aligned with input)
+     */
+    calculateMovingAverage(values: number[], type: MovingAverageType, period: number): number[] {
+        switch (type) {
+            case 'ema':
+                return this.calculateEma(values, period);
+            case 'wma':
+                return this.calculateWma(values, period);
+            case 'hma':
+                return this.calculateHma(values, period);
+            default:
+                return this.calculateSma(values, period);
+        }
+    }
+
+    /**
+     * MA crossover lines from indicator_params (default: SMA(50) vs SMA(200) golden/death cross)
+     */
+    getMaCrossover(params?: any): MaCrossover {
+        return {
+            fast: params?.fast ?? { type: 'sma', period: 50 },
+            slow: params?.slow ?? { type: 'sma', period: 200 },
+        };
+    }
+
+    /**
+     * Bars a crossover line needs (EMA gets extra bars to converge from its SMA seed)
+     */
+    getMaLinePeriod(line: CrossoverLine): number {
+        const period = line.period ?? 1;
+        switch (line.type) {
+            case 'price':
+                return 1;
+            case 'ema':
+                return period * 2;
+            case 'hma':
+                return period + Math.floor(Math.sqrt(period));
+            default:
+                return period;
+        }
+    }
+
+    /**
+     * Label for crossover line, e.g. "EMA(9)" or "Price"
+     */
+    describeMaLine(line: CrossoverLine): string {
+        return line.type === 'price' ? 'Price' : `${line.type.toUpperCase()}(${line.period})`;
+    }
+
+    /**
+     * Calculate MA crossover series: fast and slow line (price or SMA/EMA/WMA/HMA of params.source)
+     * Main value is the fast line; state has fast and slow
+     */
+    calculateMaCrossover(candles: any[], params?: any): Array<{ value: number, state?: any }> {
+        const { fast, slow } = this.getMaCrossover(params);
+        const values = this.getSourceValues(candles, params?.source);
+        const lineValues = (line: CrossoverLine) => line.type === 'price'
+            ? values
+            : this.calculateMovingAverage(values, line.type, line.period ?? 1);
+        const fastValues = lineValues(fast);
+        const slowValues = lineValues(slow);
+
+        const result: Array<{ value: number, state?: any }> = [];
+        for (let i = 0; i < values.length; i++) {
+            if (!isFinite(fastValues[i]) || !isFinite(slowValues[i])) {
+                continue;
+            }
+            result.push({
+                value: fastValues[i],
+                state: { fast: fastValues[i], slow: slowValues[i] }
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Calculate Supertrend (same as TradingView ta.supertrend on hl2)
+     * Bands = hl2 ± multiplier * ATR(atrPeriod) (ATR = RMA of true range), trailed while the trend holds.
+     * Main value is the Supertrend line; state has supertrend, direction (1 = up, -1 = down), upper, lower.
+     * Stored in indicator_state between runs so flips are detected against the previous run's direction.
+     */
+    calculateSupertrend(candles: any[], atrPeriod: number, params?: any): Array<{ value: number, state?: any }> {
+        const multiplier = params?.multiplier ?? 3;
+        if (candles.length < atrPeriod + 1) {
+            return [];
+        }
+
+        const trueRanges = candles.map((c, i) => i === 0
+            ? c.high - c.low
+            : Math.max(c.high - c.low, Math.abs(c.high - candles[i - 1].close), Math.abs(c.low - candles[i - 1].close)));
+        const atrValues = this.calculateRma(trueRanges, atrPeriod);
+
+        const result: Array<{ value: number, state?: any }> = [];
+        let previousUpper = NaN;
+        let previousLower = NaN;
+        let previousSupertrend = NaN;
+        for (let i = atrPeriod - 1; i < candles.length; i++) {
+            const source = (candles[i].high + candles[i].low) / 2;
+            let upper = source + multiplier * atrValues[i];
+            let lower = source - multiplier * atrValues[i];
+
+            let direction: number;
+            if (isNaN(previousSupertrend)) {
+                direction = -1;  // First bar starts in downtrend (line on upper band), as in TradingView
+            } else {
+                const previousClose = candles[i - 1].close;
+                lower = lower > previousLower || previousClose < previousLower ? lower : previousLower;
+                upper = upper < previousUpper || previousClose > previousUpper ? upper : previousUpper;
+                direction = previousSupertrend === previousUpper
+                    ? (candles[i].close > upper ? 1 : -1)
+                    : (candles[i].close < lower ? -1 : 1);
+            }
+
+            const supertrend = direction === 1 ? lower : upper;
+            result.push({
+                value: supertrend,
+                state: { supertrend, direction, upper, lower }
+            });
+
+            previousUpper = upper;
+            previousLower = lower;
+            previousSupertrend = supertrend;
+        }
+
+        return result;
+    }
+
+    /**
+     * Calculate Parabolic SAR (same as TradingView ta.sar)
+     * params: step (acceleration start and increment, default 0.02), maxStep (default 0.2)
+     * Main value is SAR; state has sar, direction (1 = up, SAR below price; -1 = down), ep (extreme point), af
+     */
+    calculateParabolicSar(candles: any[], params?: any): Array<{ value: number, state?: any }> {
+        const step = params?.step ?? 0.02;
+        const maxStep = params?.maxStep ?? 0.2;
+        if (candles.length < 3) {
+            return [];
+        }
+
+        const result: Array<{ value: number, state?: any }> = [];
+        let isUp = candles[1].close > candles[0].close;
+        let extremePoint = isUp ? candles[1].high : candles[1].low;
+        let sar = isUp ? candles[0].low : candles[0].high;
+        let acceleration = step;
+
+        for (let i = 1; i < candles.length; i++) {
+            const candle = candles[i];
+            let isFirstTrendBar = i === 1;
+
+            sar = sar + acceleration * (extremePoint - sar);
+
+            // Reversal when price penetrates SAR
+            if (isUp && sar > candle.low) {
+                isFirstTrendBar = true;
+                isUp = false;
+                sar = Math.max(candle.high, extremePoint);
+                extremePoint = candle.low;
+                acceleration = step;
+            } else if (!isUp && sar < candle.high) {
+                isFirstTrendBar = true;
+                isUp = true;
+                sar = Math.min(candle.low, extremePoint);
+                extremePoint = candle.high;
+                acceleration = step;
+            }
+
+            // New extreme point accelerates SAR
+            if (!isFirstTrendBar) {
+                if (isUp && candle.high > extremePoint) {
+                    extremePoint = candle.high;
+                    acceleration = Math.min(acceleration + step, maxStep);
+                } else if (!isUp && candle.low < extremePoint) {
+                    extremePoint = candle.low;
+                    acceleration = Math.min(acceleration + step, maxStep);
+                }
+            }
+
+            // SAR never moves into the previous two bars' range
+            if (isUp) {
+                sar = Math.min(sar, candles[i - 1].low);
+                if (i > 1) sar = Math.min(sar, candles[i - 2].low);
+            } else {
+                sar = Math.max(sar, candles[i - 1].high);
+                if (i > 1) sar = Math.max(sar, candles[i - 2].high);
+            }
+
+            result.push({
+                value: sar,
+                state: { sar, direction: isUp ? 1 : -1, ep: extremePoint, af: acceleration }
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Ichimoku parameters from indicator_params (TradingView defaults 9 / 26 / 52 / 26)
+     */
+    getIchimokuParams(params?: any): { tenkan: number; kijun: number; senkouB: number; displacement: number } {
+        return {
+            tenkan: params?.tenkan ?? 9,
+            kijun: params?.kijun ?? 26,
+            senkouB: params?.senkouB ?? 52,
+            displacement: params?.displacement ?? 26,
+        };
+    }
+
+    /**
+     * Calculate Ichimoku Cloud (same as TradingView: leading spans plotted displacement - 1 bars ahead)
+     * Main value is Tenkan-sen; state has tenkan, kijun, spanA/spanB (cloud under this bar, projected from
+     * displacement - 1 bars back), leadA/leadB (spans computed on this bar, i.e. the future cloud),
+     * close and position (1 = above cloud, 0 = inside, -1 = below).
+     * Displacement is counted in bars of the given candle set, so on a forming candle the cloud under it comes
+     * from closed bars and stays fixed within the bar, while Tenkan/Kijun, lead spans and close move with it.
+     * alert_on_close rules get closed candles only, so the same bar is evaluated with its final high/low.
+     */
+    calculateIchimoku(candles: any[], params?: any): Array<{ value: number, state?: any }> {
+        const { tenkan: tenkanPeriod, kijun: kijunPeriod, senkouB: senkouBPeriod, displacement } = this.getIchimokuParams(params);
+        const offset = displacement - 1;
+
+        // Donchian midline (highest high + lowest low) / 2 over `length` bars ending at index
+        const midline = (index: number, length: number): number => {
+            let high = -Infinity;
+            let low = Infinity;
+            for (let j = index - length + 1; j <= index; j++) {
+                high = Math.max(high, candles[j].high);
+                low = Math.min(low, candles[j].low);
+            }
+            return (high + low) / 2;
+        };
+
+        const result: Array<{ value: number, state?: any }> = [];
+        const firstIndex = Math.max(tenkanPeriod, kijunPeriod, senkouBPeriod) - 1 + offset;
+        for (let i = firstIndex; i < candles.length; i++) {
+            const tenkan = midline(i, tenkanPeriod);
+            const kijun = midline(i, kijunPeriod);
+            const leadA = (tenkan + kijun) / 2;
+            const leadB = midline(i, senkouBPeriod);
+
+            // Cloud under the current bar was projected from bar i - offset
+            const sourceIndex = i - offset;
+            const spanA = (midline(sourceIndex, tenkanPeriod) + midline(sourceIndex, kijunPeriod)) / 2;
+            const spanB = midline(sourceIndex, senkouBPeriod);
+
+            const close = candles[i].close;
+            const position = close > Math.max(spanA, spanB) ? 1 : close < Math.min(spanA, spanB) ? -1 : 0;
+            result.push({
+                value: tenkan,
+                state: { tenkan, kijun, spanA, spanB, leadA, leadB, close, position }
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Calculate VWAP with standard-deviation bands (same as TradingView ta.vwap on hlc3)
+     * Session VWAP restarts on each exchange-local day (params.timezone, set by the engine from symbol info);
+     * anchored VWAP (params.anchor, ms timestamp) accumulates from the first bar at or after the anchor.
+     * Bars before the first complete session / the anchor have no value, so nothing is returned when the
+     * candles don't reach back to the anchor. params: source (default hlc3), bandMultiplier (default 1).
+     * Main value is VWAP; state has vwap, upper, lower, close, percentB (position within the bands) and
+     * sessionStart (timestamp the accumulation started at).
+     */
+    calculateVwap(candles: any[], params?: any): Array<{ value: number, state?: any }> {
+        const multiplier = params?.bandMultiplier ?? 1;
+        const anchor: number | undefined = typeof params?.anchor === 'number' ? params.anchor : undefined;
+        const sourceValues = this.getSourceValues(candles, params?.source ?? 'hlc3');
+
+        // Exchange-local calendar day of a bar (session boundary)
+        const dayFormat = new Intl.DateTimeFormat('en-CA', {
+            timeZone: params?.timezone || 'UTC',
+            year: 'numeric',
+            month: '2-digit',
+            day: '2-digit',
+        });
+
+        const result: Array<{ value: number, state?: any }> = [];
+        let sessionStart: number | null = null;
+        let sumVolume = 0;
+        let sumPriceVolume = 0;
+        let sumSquaredPriceVolume = 0;
+        let previousDay = '';
+        for (let i = 0; i < candles.length; i++) {
+            const timestamp = candles[i].timestamp;
+            let isStart: boolean;
+            if (anchor !== undefined) {
+                isStart = timestamp >= anchor && (i === 0 ? timestamp === anchor : candles[i - 1].timestamp < anchor);
+            } else {
+                const day = dayFormat.format(new Date(timestamp));
+                isStart = i > 0 && day !== previousDay;
+                previousDay = day;
+            }
+
+            if (isStart) {
+                sessionStart = timestamp;
+                sumVolume = 0;
+                sumPriceVolume = 0;
+                sumSquaredPriceVolume = 0;
+            }
+            if (sessionStart === null) {
+                continue;
+            }
+
+            const source = sourceValues[i];
+            const volume = candles[i].volume || 0;
+            sumVolume += volume;
+            sumPriceVolume += source * volume;
+            sumSquaredPriceVolume += source * source * volume;
+
+            const vwap = sumVolume > 0 ? sumPriceVolume / sumVolume : source;
+            const stdev = sumVolume > 0 ? Math.sqrt(Math.max(0, sumSquaredPriceVolume / sumVolume - vwap * vwap)) : 0;
+            const upper = vwap + multiplier * stdev;
+            const lower = vwap - multiplier * stdev;
+            const close = candles[i].close;
+            result.push({
+                value: vwap,
+                state: {
+                    vwap,
+                    upper,
+                    lower,
+                    close,
+                    percentB: upper > lower ? (close - lower) / (upper - lower) : 0.5,
+                    sessionStart,
+                }
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Detect candlestick patterns on every bar (run on closed candles only)
+     * State has 1/0 per pattern (usable as condition lines, e.g. line 'bullish_engulfing' above 0) and barTs.
+     * Main value is 1 when any of params.patterns (default all) is found on the bar, otherwise 0.
+     * Hammer / shooting star need a decline / advance over the previous 5 bars.
+     */
+    calculatePatterns(candles: any[], params?: any): Array<{ value: number, state?: any }> {
+        const selected: string[] = Array.isArray(params?.patterns) && params.patterns.length > 0 ? params.patterns : CANDLE_PATTERNS;
+        const trendBars = 5;
+        const result: Array<{ value: number, state?: any }> = [];
+
+        const body = (c: any) => Math.abs(c.close - c.open);
+        const range = (c: any) => c.high - c.low;
+        const upperShadow = (c: any) => c.high - Math.max(c.open, c.close);
+        const lowerShadow = (c: any) => Math.min(c.open, c.close) - c.low;
+        const isBullish = (c: any) => c.close > c.open;
+        const isBearish = (c: any) => c.close < c.open;
+
+        for (let i = trendBars + 2; i < candles.length; i++) {
+            const current = candles[i];
+            const previous = candles[i - 1];
+            const first = candles[i - 2];
+            const currentBody = body(current);
+            const currentRange = range(current);
+            const isDoji = currentRange > 0 && currentBody <= currentRange * 0.1;
+            const declined = previous.close < candles[i - 1 - trendBars].close;
+            const advanced = previous.close > candles[i - 1 - trendBars].close;
+            // Star: long first body, small middle body, third bar closes beyond the first body's midpoint
+            const firstBody = body(first);
+            const isStar = firstBody >= range(first) * 0.5 && body(previous) <= firstBody * 0.3;
+            const firstMidpoint = (first.open + first.close) / 2;
+
+            const found: Record<CandlePattern, boolean> = {
+                bullish_engulfing: isBearish(previous) && isBullish(current)
+                    && current.open <= previous.close && current.close >= previous.open && currentBody > body(previous),
+                bearish_engulfing: isBullish(previous) && isBearish(current)
+                    && current.open >= previous.close && current.close <= previous.open && currentBody > body(previous),
+                hammer: declined && !isDoji && lowerShadow(current) >= 2 * currentBody && upperShadow(current) <= currentBody,
+                shooting_star: advanced && !isDoji && upperShadow(current) >= 2 * currentBody && lowerShadow(current) <= currentBody,
+                morning_star: isStar && isBearish(first) && isBullish(current) && current.close > firstMidpoint,
+                evening_star: isStar && isBullish(first) && isBearish(current) && current.close < firstMidpoint,
+                doji: isDoji,
+                inside_bar: current.high < previous.high && current.low > previous.low,
+            };
+
+            const state: Record<string, number> = { barTs: current.timestamp };
+            for (const pattern of CANDLE_PATTERNS) {
+                state[pattern] = found[pattern as CandlePattern] ? 1 : 0;
+            }
+            result.push({
+                value: selected.some(pattern => state[pattern] === 1) ? 1 : 0,
+                state
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Bars until the first MACD value: both EMAs seeded, then the signal EMA of the MACD line
+     */
+    getMacdMinBars(params?: any): number {
+        return Math.max(params?.fastPeriod ?? 12, params?.slowPeriod ?? 26) + (params?.signalPeriod ?? 9) - 1;
+    }
+
+    /**
+     * Calculate MACD (Moving Average Convergence Divergence)
+     * MACD = EMA(fast) - EMA(slow), Signal = EMA(signal) of MACD, Histogram = MACD - Signal
+     */
+    calculateMacd(candles: any[], params?: any): Array<{ value: number, state?: any }> {
+        const fastPeriod = params?.fastPeriod ?? 12;
+        const slowPeriod = params?.slowPeriod ?? 26;
+        const signalPeriod = params?.signalPeriod ?? 9;
+
+        if (candles.length < this.getMacdMinBars(params)) {
+            return [];
+        }
+
+        const closes = candles.map(c => c.close);
+        const fastEma = this.calculateEma(closes, fastPeriod);
+        const slowEma = this.calculateEma(closes, slowPeriod);
+
+        // MACD line is defined once both EMAs are seeded
+        const firstMacdIndex = Math.max(fastPeriod, slowPeriod) - 1;
+        const macdValues: number[] = [];
+        for (let i = firstMacdIndex; i < closes.length; i++) {
+            macdValues.push(fastEma[i] - slowEma[i]);
+        }
+
+        const signalValues = this.calculateEma(macdValues, signalPeriod);
+
+        const result: Array<{ value: number, state?: any }> = [];
+        for (let i = signalPeriod - 1; i < macdValues.length; i++) {
+            const macd = macdValues[i];
+            const signal = signalValues[i];
+            result.push({
+                value: macd,  // MACD line is the main value
+                state: { macd, signal, histogram: macd - signal }
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * MACD calculation state after the last candle: fast / slow EMAs of close and signal EMA of MACD
+     * Null until the first MACD value (same warm-up as calculateMacd)
+     */
+    getMacdCalcState(candles: any[], params?: any): { fast: number; slow: number; signal: number } | null {
+        const fastPeriod = params?.fastPeriod ?? 12;
+        const slowPeriod = params?.slowPeriod ?? 26;
+        const signalPeriod = params?.signalPeriod ?? 9;
+        if (candles.length < this.getMacdMinBars(params)) {
+            return null;
+        }
+
+        const closes = candles.map(c => c.close);
+        const fastEma = this.calculateEma(closes, fastPeriod);
+        const slowEma = this.calculateEma(closes, slowPeriod);
+        const firstMacdIndex = Math.max(fastPeriod, slowPeriod) - 1;
+        const macdValues: number[] = [];
+        for (let i = firstMacdIndex; i < closes.length; i++) {
+            macdValues.push(fastEma[i] - slowEma[i]);
+        }
+        const signalValues = this.calculateEma(macdValues, signalPeriod);
+
+        return {
+            fast: fastEma[fastEma.length - 1],
+            slow: slowEma[slowEma.length - 1],
+            signal: signalValues[signalValues.length - 1],
+        };
+    }
+
+    /**
+     * Advance MACD calculation state by one bar
+     */
+    stepMacd(calc: { fast: number; slow: number; signal: number }, candle: any, params?: any): { point: { value: number, state: any }, calc: { fast: number; slow: number; signal: number } } {
+        const fastK = 2 / ((params?.fastPeriod ?? 12) + 1);
+        const slowK = 2 / ((params?.slowPeriod ?? 26) + 1);
+        const signalK = 2 / ((params?.signalPeriod ?? 9) + 1);
+        const fast = candle.close * fastK + calc.fast * (1 - fastK);
+        const slow = candle.close * slowK + calc.slow * (1 - slowK);
+        const macd = fast - slow;
+        const signal = macd * signalK + calc.signal * (1 - signalK);
+        return {
+            point: { value: macd, state: { macd, signal, histogram: macd - signal } },
+            calc: { fast, slow, signal },
+        };
+    }
+
+    /**
+     * Price series for price alerts
+     * Main value is close; state has percent change over `period` bars and gap of bar open from previous close
+     * (barTs lets gap mode fire once per bar)
+     */
+    calculatePrice(candles: any[], period: number): Array<{ value: number, state?: any }> {
+        const result: Array<{ value: number, state?: any }> = [];
+        const barsBack = Math.max(1, period);
+
+        for (let i = barsBack; i < candles.length; i++) {
+            const close = candles[i].close;
+            const baseClose = candles[i - barsBack].close;
+            const previousClose = candles[i - 1].close;
+            const change = baseClose === 0 ? 0 : ((close - baseClose) / baseClose) * 100;
+            const gap = previousClose === 0 ? 0 : ((candles[i].open - previousClose) / previousClose) * 100;
+
+            result.push({
+                value: close,
+                state: { close, change, gap, barTs: candles[i].timestamp }
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Calculate ADX with +DI/-DI (same as TradingView DMI)
+     * +DM/-DM and true range are smoothed with RMA(period); ADX = RMA(DX, params.adxSmoothing), default = period
+     * Main value is ADX; state has adx, plusDi, minusDi
+     */
+    calculateAdx(candles: any[], period: number, params?: any): Array<{ value: number, state?: any }> {
+        const adxSmoothing = params?.adxSmoothing ?? period;
+        if (candles.length < period + adxSmoothing + 1) {
+            return [];
+        }
+
+        // Directional movement and true range per bar (index i = bar i + 1)
+        const plusDm: number[] = [];
+        const minusDm: number[] = [];
+        const trueRanges: number[] = [];
+        for (let i = 1; i < candles.length; i++) {
+            const up = candles[i].high - candles[i - 1].high;
+            const down = candles[i - 1].low - candles[i].low;
+            plusDm.push(up > down && up > 0 ? up : 0);
+            minusDm.push(down > up && down > 0 ? down : 0);
+            trueRanges.push(Math.max(
+                candles[i].high - candles[i].low,
+                Math.abs(candles[i].high - candles[i - 1].close),
+                Math.abs(candles[i].low - candles[i - 1].close)
+            ));
+        }
+
+        const smoothedTr = this.calculateRma(trueRanges, period);
+        const smoothedPlus = this.calculateRma(plusDm, period);
+        const smoothedMinus = this.calculateRma(minusDm, period);
+
+        const plusDi: number[] = [];
+        const minusDi: number[] = [];
+        const dx: number[] = [];
+        for (let i = period - 1; i < trueRanges.length; i++) {
+            const plus = smoothedTr[i] === 0 ? 0 : (100 * smoothedPlus[i]) / smoothedTr[i];
+            const minus = smoothedTr[i] === 0 ? 0 : (100 * smoothedMinus[i]) / smoothedTr[i];
+            const sum = plus + minus;
+            plusDi.push(plus);
+            minusDi.push(minus);
+            dx.push((100 * Math.abs(plus - minus)) / (sum === 0 ? 1 : sum));
+        }
+
+        const adxValues = this.calculateRma(dx, adxSmoothing);
+        const result: Array<{ value: number, state?: any }> = [];
+        for (let i = adxSmoothing - 1; i < dx.length; i++) {
+            result.push({
+                value: adxValues[i],
+                state: { adx: adxValues[i], plusDi: plusDi[i], minusDi: minusDi[i] }
+            });
+        }
+
+        return result;
+    }
+
+    /**
+     * Calculate Commodity Channel Index
+     * CCI = (src - SMA(src)) / (0.015 * mean deviation), src = params.source (default hlc3 like TradingView)
+     */
+    calculateCci(candles: any[], period: number, params?: any): number[] {
+        if (candles.length < period) {
             return [];
         }
 
-        // Step 2: Apply Slow Stochastic smoothing if needed
-        // Smooth %K with SMA(slowPeriod) to get Slow Stochastic %K
-        let kValues: number[] = rawKValues;
-        if (useSlowStochastic) {
-            kValues = [];
-            // Calculate SMA of rawKValues with period slowPeriodValue
-            for (let i = slowPeriodValue - 1; i < rawKValues.length; i++) {
-                const periodValues = rawKValues.slice(i - slowPeriodValue + 1, i + 1);
-                const smoothedK = periodValues.reduce((a, b) => a + b, 0) / slowPeriodValue;
-                kValues.push(Math.max(0, Math.min(100, smoothedK)));
+        const values = this.getSourceValues(candles, params?.source ?? 'hlc3');
+        const means = this.calculateSma(values, period);
+        const cciValues: number[] = [];
+
+        for (let i = period - 1; i < values.length; i++) {
+            let deviation = 0;
+            for (let j = i - period + 1; j <= i; j++) {
+                deviation += Math.abs(values[j] - means[i]);
             }
+            deviation /= period;
+            cciValues.push(deviation === 0 ? 0 : (values[i] - means[i]) / (0.015 * deviation));
         }
 
-        if (kValues.length === 0) {
+        return cciValues;
+    }
+
+    /**
+     * Calculate Rate of Change in percent: 100 * (src - src[period]) / src[period]
+     */
+    calculateRoc(candles: any[], period: number, params?: any): number[] {
+        if (candles.length < period + 1) {
             return [];
         }
 
-        // Step 3: Calculate %D values as SMA of (smoothed) %K
-        let dValues: number[] = [];
-        for (let i = dPeriod - 1; i < kValues.length; i++) {
-            const dPeriodValues = kValues.slice(i - dPeriod + 1, i + 1);
-            const d = dPeriodValues.reduce((a, b) => a + b, 0) / dPeriod;
-            dValues.push(Math.max(0, Math.min(100, d)));
+        const values = this.getSourceValues(candles, params?.source);
+        const rocValues: number[] = [];
+        for (let i = period; i < values.length; i++) {
+            const base = values[i - period];
+            rocValues.push(base === 0 ? 0 : (100 * (values[i] - base)) / base);
         }
 
-        // Step 4: Apply additional smoothing to %D if smoothPeriod is provided
-        if (smoothPeriod != null && smoothPeriod > 1) {
-            const smoothedDValues: number[] = [];
-            for (let i = smoothPeriod - 1; i < dValues.length; i++) {
-                const periodValues = dValues.slice(i - smoothPeriod + 1, i + 1);
-                const smoothedD = periodValues.reduce((a, b) => a + b, 0) / smoothPeriod;
-                smoothedDValues.push(Math.max(0, Math.min(100, smoothedD)));
-            }
-            dValues = smoothedDValues;
+        return rocValues;
+    }
+
+    /**
+     * Calculate Momentum (price units): src - src[period]
+     */
+    calculateMomentum(candles: any[], period: number, params?: any): number[] {
+        if (candles.length < period + 1) {
+            return [];
         }
 
-        if (dValues.length === 0) {
+        const values = this.getSourceValues(candles, params?.source);
+        const momentumValues: number[] = [];
+        for (let i = period; i < values.length; i++) {
+            momentumValues.push(values[i] - values[i - period]);
+        }
+
+        return momentumValues;
+    }
+
+    /**
+     * Check if candles carry volume (providers report 0 for forex and some indices)
+     */
+    hasVolume(candles: any[]): boolean {
+        return candles.some(c => typeof c.volume === 'number' && c.volume > 0);
+    }
+
+    /**
+     * Calculate Money Flow Index (volume-weighted RSI on typical price hlc3)
+     * Values range from 0 to 100; bars without money flow in either direction give 50
+     */
+    calculateMfi(candles: any[], period: number): number[] {
+        if (candles.length < period + 1 || !this.hasVolume(candles)) {
             return [];
         }
 
-        // Step 5: Build results aligned with candles
-        // Calculate offsets to align with candle indices
-        const slowOffset = useSlowStochastic ? (slowPeriodValue - 1) : 0;
-        const smoothOffset = (smoothPeriod != null && smoothPeriod > 1) ? (smoothPeriod - 1) : 0;
-        const firstCandleIndex = kPeriod + slowOffset + dPeriod - 1 + smoothOffset;
+        const typicalPrices = this.getSourceValues(candles, 'hlc3');
+        const positiveFlows: number[] = [0];
+        const negativeFlows: number[] = [0];
+        for (let i = 1; i < candles.length; i++) {
+            const flow = typicalPrices[i] * (candles[i].volume || 0);
+            positiveFlows.push(typicalPrices[i] > typicalPrices[i - 1] ? flow : 0);
+            negativeFlows.push(typicalPrices[i] < typicalPrices[i - 1] ? flow : 0);
+        }
 
-        const result: Array<{ value: number, state?: any }> = [];
-        for (let i = 0; i < dValues.length; i++) {
-            const candleIndex = firstCandleIndex + i;
-            if (candleIndex >= candles.length) break;
+        const mfiValues: number[] = [];
+        for (let i = period; i < candles.length; i++) {
+            let positive = 0, negative = 0;
+            for (let j = i - period + 1; j <= i; j++) {
+                positive += positiveFlows[j];
+                negative += negativeFlows[j];
+            }
 
-            // The %K value that corresponds to this %D value
-            const kIndexInSmoothed = dPeriod - 1 + smoothOffset + i;
-            if (kIndexInSmoothed >= kValues.length) break;
+            let mfi: number;
+            if (positive === 0 && negative === 0) {
+                mfi = 50.0;
+            } else if (negative === 0) {
+                mfi = 100.0;
+            } else {
+                mfi = 100 - (100 / (1 + positive / negative));
+            }
+            mfiValues.push(Math.max(0, Math.min(100, mfi)));
+        }
 
-            // For display, use smoothed %K for Slow Stochastic (which is what Yahoo Finance shows)
-            // For Fast Stochastic, use raw %K
-            const displayK = useSlowStochastic 
-                ? kValues[kIndexInSmoothed]  // Use smoothed %K for Slow Stochastic
-                : (kIndexInSmoothed < rawKValues.length 
-                    ? rawKValues[kIndexInSmoothed] 
-                    : kValues[kIndexInSmoothed]);
+        return mfiValues;
+    }
+
+    /**
+     * Calculate On-Balance Volume
+     * Main value is OBV; state has slope (OBV change per bar over `period` bars)
+     * and highest/lowest OBV of the previous `period` bars (for breakouts)
+     */
+    calculateObv(candles: any[], period: number): Array<{ value: number, state?: any }> {
+        if (candles.length < period + 1 || !this.hasVolume(candles)) {
+            return [];
+        }
+
+        const obvValues: number[] = [0];
+        for (let i = 1; i < candles.length; i++) {
+            const change = candles[i].close - candles[i - 1].close;
+            const volume = candles[i].volume || 0;
+            obvValues.push(obvValues[i - 1] + (change > 0 ? volume : change < 0 ? -volume : 0));
+        }
 
+        const result: Array<{ value: number, state?: any }> = [];
+        for (let i = period; i < obvValues.length; i++) {
+            const obv = obvValues[i];
+            const window = obvValues.slice(i - period, i);
             result.push({
-                value: displayK,  // Use %K as main value (same as Flutter UI)
-                state: { k: displayK, d: dValues[i] }  // Store both %K and %D in state
+                value: obv,
+                state: {
+                    obv,
+                    slope: (obv - obvValues[i - period]) / period,
+                    highest: Math.max(...window),
+                    lowest: Math.min(...window),
+                }
             });
         }
 
@@ -567,54 +2634,99 @@ export class IndicatorEngine {
     }
 
     /**
-     * Calculate Williams %R (Williams Percent Range)
-     * Formula: %R = ((Highest High - Close) / (Highest High - Lowest Low)) × -100
-     * Values range from -100 to 0
+     * Calculate Chaikin Money Flow
+     * CMF = sum(money flow volume, period) / sum(volume, period), range -1 to 1 (0 when no volume in window)
      */
-    calculateWilliams(candles: any[], period: number): number[] {
-        if (candles.length < period) {
-        return [];
-    }
+    calculateCmf(candles: any[], period: number): number[] {
+        if (candles.length < period || !this.hasVolume(candles)) {
+            return [];
+        }
 
-        const highs = candles.map(c => c.high);
-        const lows = candles.map(c => c.low);
-        const closes = candles.map(c => c.close);
-        const williamsValues: number[] = [];
+        const flowVolumes = candles.map(c => {
+            const range = c.high - c.low;
+            const multiplier = range === 0 ? 0 : ((c.close - c.low) - (c.high - c.close)) / range;
+            return multiplier * (c.volume || 0);
+        });
 
-        // Calculate Williams %R starting from index period - 1
+        const cmfValues: number[] = [];
         for (let i = period - 1; i < candles.length; i++) {
-            // Get high and low values for the period
-            const periodHighs = highs.slice(i - period + 1, i + 1);
-            const periodLows = lows.slice(i - period + 1, i + 1);
-            const close = closes[i];
+            let flowSum = 0, volumeSum = 0;
+            for (let j = i - period + 1; j <= i; j++) {
+                flowSum += flowVolumes[j];
+                volumeSum += candles[j].volume || 0;
+            }
+            cmfValues.push(volumeSum === 0 ? 0 : flowSum / volumeSum);
+        }
 
-            const highestHigh = Math.max(...periodHighs);
-            const lowestLow = Math.min(...periodLows);
+        return cmfValues;
+    }
 
-            let williams: number;
-            if (highestHigh === lowestLow) {
-                // Avoid division by zero - use -50 as neutral value
-                williams = -50.0;
-            } else {
-                williams = ((highestHigh - close) / (highestHigh - lowestLow)) * -100.0;
-                williams = Math.max(-100.0, Math.min(0.0, williams));
+    /**
+     * Calculate Bollinger Bands
+     * Basis = MA(period) (SMA or EMA), bands = basis ± stdDev * standard deviation of close
+     * Main value is %B (0 = lower band, 1 = upper band) or bandwidth ((upper - lower) / basis * 100),
+     * selected by params.valueType. Squeeze = bandwidth below its minimum over the previous squeezeLookback bars.
+     */
+    calculateBollinger(candles: any[], period: number, params?: any): Array<{ value: number, state?: any }> {
+        const stdDevMultiplier = params?.stdDev ?? 2;
+        const maType = params?.maType === 'ema' ? 'ema' : 'sma';
+        const valueType = params?.valueType === 'bandwidth' ? 'bandwidth' : 'percent_b';
+        const squeezeLookback = params?.squeezeLookback ?? 20;
+
+        if (candles.length < period) {
+            return [];
+        }
+
+        const closes = candles.map(c => c.close);
+        const basisValues = maType === 'ema' ? this.calculateEma(closes, period) : this.calculateSma(closes, period);
+        const meanValues = maType === 'ema' ? this.calculateSma(closes, period) : basisValues;
+
+        const result: Array<{ value: number, state?: any }> = [];
+        const bandwidths: number[] = [];
+        for (let i = period - 1; i < closes.length; i++) {
+            // Population standard deviation over the window (same as TradingView ta.stdev)
+            const mean = meanValues[i];
+            let variance = 0;
+            for (let j = i - period + 1; j <= i; j++) {
+                variance += (closes[j] - mean) ** 2;
             }
+            const deviation = Math.sqrt(variance / period) * stdDevMultiplier;
 
-            williamsValues.push(williams);
+            const basis = basisValues[i];
+            const upper = basis + deviation;
+            const lower = basis - deviation;
+            const close = closes[i];
+            const percentB = upper === lower ? 0.5 : (close - lower) / (upper - lower);
+            const bandwidth = basis === 0 ? 0 : ((upper - lower) / basis) * 100;
+
+            // Squeeze: bandwidth under its minimum of the previous N bars
+            const window = bandwidths.slice(-squeezeLookback);
+            const squeeze = window.length >= squeezeLookback && bandwidth < Math.min(...window) ? 1 : 0;
+            bandwidths.push(bandwidth);
+
+            result.push({
+                value: valueType === 'bandwidth' ? bandwidth : percentB,
+                state: { upper, middle: basis, lower, close, percentB, bandwidth, squeeze }
+            });
         }
 
-        return williamsValues;
+        return result;
     }
 
     /**
      * Check level crossings (universal for all indicators)
+     * currentState/previousState carry line values (e.g. MACD/signal) for line crossover modes
+     * alertState carries hysteresis arming flags for 'cross' mode (plain crossing when not tracked yet)
      */
     checkCrossings(
         rule: AlertRule,
         currentValue: number,
         previousValue: number,
         timestamp: number,
-        indicator: string = 'rsi'
+        indicator: string = 'rsi',
+        currentState?: any,
+        previousState?: any,
+        alertState?: Pick<AlertState, 'was_above_upper' | 'was_below_lower'>
     ): AlertTrigger[] {
         const triggers: AlertTrigger[] = [];
         const indicatorName = indicator.toUpperCase();
@@ -631,41 +2743,23 @@ export class IndicatorEngine {
             
             // Lower level: downward crossing only (e.g., from 21 to 19 for level 20)
             if (lowerLevel !== null && lowerLevel !== undefined) {
-                if (this.checkCrossDown(currentValue, previousValue, lowerLevel)) {
-                    triggers.push({
-                        ruleId: rule.id,
-                        userId: rule.user_id,
-                        symbol: rule.symbol,
-                        indicatorValue: currentValue,
-                        indicator: indicator,
-                        timeframe: rule.timeframe,
-                        source: rule.source || 'custom',
-                        rsi: currentValue,  // Keep for backward compatibility
-                        level: lowerLevel,
-                        type: 'cross_down',
-                        timestamp: timestamp,
-                        message: `${indicatorName} crossed level ${lowerLevel} downward (${currentValue.toFixed(1)})`
-                    });
+                const lowerArmed = alertState?.was_below_lower == null
+                    ? previousValue >= lowerLevel
+                    : alertState.was_below_lower === 0;
+                if (lowerArmed && currentValue < lowerLevel) {
+                    triggers.push(this.buildTrigger(rule, indicator, currentValue, lowerLevel, 'cross_down', timestamp,
+                        `${indicatorName} crossed level ${lowerLevel} downward (${this.formatValue(currentValue, indicator)})`));
                 }
             }
             
             // Upper level: upward crossing only (e.g., from 79 to 81 for level 80)
             if (upperLevel !== null && upperLevel !== undefined) {
-                if (this.checkCrossUp(currentValue, previousValue, upperLevel)) {
-                    triggers.push({
-                        ruleId: rule.id,
-                        userId: rule.user_id,
-                        symbol: rule.symbol,
-                        indicatorValue: currentValue,
-                        indicator: indicator,
-                        timeframe: rule.timeframe,
-                        source: rule.source || 'custom',
-                        rsi: currentValue,  // Keep for backward compatibility
-                        level: upperLevel,
-                        type: 'cross_up',
-                        timestamp: timestamp,
-                        message: `${indicatorName} crossed level ${upperLevel} upward (${currentValue.toFixed(1)})`
-                    });
+                const upperArmed = alertState?.was_above_upper == null
+                    ? previousValue <= upperLevel
+                    : alertState.was_above_upper === 0;
+                if (upperArmed && currentValue > upperLevel) {
+                    triggers.push(this.buildTrigger(rule, indicator, currentValue, upperLevel, 'cross_up', timestamp,
+                        `${indicatorName} crossed level ${upperLevel} upward (${this.formatValue(currentValue, indicator)})`));
                 }
             }
         } else if (rule.mode === 'enter' && rule.levels.length >= 2) {
@@ -675,20 +2769,8 @@ export class IndicatorEngine {
                 rule.levels[0],
                 rule.levels[1]
             )) {
-                triggers.push({
-                    ruleId: rule.id,
-                    userId: rule.user_id,
-                    symbol: rule.symbol,
-                    indicatorValue: currentValue,
-                    indicator: indicator,
-                    timeframe: rule.timeframe,
-                    source: rule.source || 'custom',
-                    rsi: currentValue,  // Keep for backward compatibility
-                    level: rule.levels[1],
-                    type: 'enter_zone',
-                    timestamp: timestamp,
-                    message: `${indicatorName} entered zone ${rule.levels[0]}-${rule.levels[1]} (${currentValue.toFixed(1)})`
-                });
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, rule.levels[1], 'enter_zone', timestamp,
+                    `${indicatorName} entered zone ${rule.levels[0]}-${rule.levels[1]} (${this.formatValue(currentValue, indicator)})`));
             }
         } else if (rule.mode === 'exit' && rule.levels.length >= 2) {
             if (this.checkExitZone(
@@ -697,26 +2779,415 @@ export class IndicatorEngine {
                 rule.levels[0],
                 rule.levels[1]
             )) {
-                triggers.push({
-                    ruleId: rule.id,
-                    userId: rule.user_id,
-                    symbol: rule.symbol,
-                    indicatorValue: currentValue,
-                    indicator: indicator,
-                    timeframe: rule.timeframe,
-                    source: rule.source || 'custom',
-                    rsi: currentValue,  // Keep for backward compatibility
-                    level: rule.levels[1],
-                    type: 'exit_zone',
-                    timestamp: timestamp,
-                    message: `${indicatorName} exited zone ${rule.levels[0]}-${rule.levels[1]} (${currentValue.toFixed(1)})`
-                });
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, rule.levels[1], 'exit_zone', timestamp,
+                    `${indicatorName} exited zone ${rule.levels[0]}-${rule.levels[1]} (${this.formatValue(currentValue, indicator)})`));
+            }
+        } else if ((rule.mode === 'signal_cross' || rule.mode === 'histogram_flip') && currentState && previousState) {
+            // MACD line crosses its signal line; histogram_flip is an alias (histogram = MACD - signal changes sign)
+            // reported as a momentum flip with its own trigger types
+            const current = currentState.macd - currentState.signal;
+            const previous = previousState.macd - previousState.signal;
+            const histogramFlip = rule.mode === 'histogram_flip';
+            if (this.checkCrossUp(current, previous, 0)) {
+                triggers.push(histogramFlip
+                    ? this.buildTrigger(rule, indicator, currentValue, 0, 'histogram_positive', timestamp,
+                        `${indicatorName} histogram turned positive (${current.toFixed(4)})`)
+                    : this.buildTrigger(rule, indicator, currentValue, currentState.signal, 'signal_cross_up', timestamp,
+                        `${indicatorName} crossed above signal line (${currentValue.toFixed(4)})`));
+            } else if (this.checkCrossDown(current, previous, 0)) {
+                triggers.push(histogramFlip
+                    ? this.buildTrigger(rule, indicator, currentValue, 0, 'histogram_negative', timestamp,
+                        `${indicatorName} histogram turned negative (${current.toFixed(4)})`)
+                    : this.buildTrigger(rule, indicator, currentValue, currentState.signal, 'signal_cross_down', timestamp,
+                        `${indicatorName} crossed below signal line (${currentValue.toFixed(4)})`));
+            }
+        } else if (rule.mode === 'kd_cross' && currentState && previousState) {
+            // %K crosses %D; with zoneFilter the cross must happen in the zone (%D below oversold for up, above overbought for down)
+            const params: any = rule.indicator_params || {};
+            const zoneFilter = params.zoneFilter === true;
+            const oversold = params.oversold ?? 20;
+            const overbought = params.overbought ?? 80;
+            const current = currentState.k - currentState.d;
+            const previous = previousState.k - previousState.d;
+            const lines = { k: currentState.k, d: currentState.d };
+            let trigger: AlertTrigger | null = null;
+            if (this.checkCrossUp(current, previous, 0) && (!zoneFilter || currentState.d < oversold)) {
+                trigger = this.buildTrigger(rule, indicator, currentValue, currentState.d, 'kd_cross_up', timestamp,
+                    `${indicatorName} %K crossed above %D${zoneFilter ? ' in oversold zone' : ''} (${currentState.k.toFixed(1)} / ${currentState.d.toFixed(1)})`);
+            } else if (this.checkCrossDown(current, previous, 0) && (!zoneFilter || currentState.d > overbought)) {
+                trigger = this.buildTrigger(rule, indicator, currentValue, currentState.d, 'kd_cross_down', timestamp,
+                    `${indicatorName} %K crossed below %D${zoneFilter ? ' in overbought zone' : ''} (${currentState.k.toFixed(1)} / ${currentState.d.toFixed(1)})`);
+            }
+            if (trigger) {
+                trigger.lines = lines;
+                triggers.push(trigger);
+            }
+        } else if (rule.mode === 'trend_flip' && currentState && previousState) {
+            // Supertrend / Parabolic SAR direction changes (1 = up, -1 = down)
+            if (currentState.direction === 1 && previousState.direction === -1) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, currentValue, 'trend_up', timestamp,
+                    `${indicatorName} flipped to uptrend (${this.formatValue(currentValue, 'price')})`));
+            } else if (currentState.direction === -1 && previousState.direction === 1) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, currentValue, 'trend_down', timestamp,
+                    `${indicatorName} flipped to downtrend (${this.formatValue(currentValue, 'price')})`));
+            }
+        } else if (rule.mode === 'tk_cross' && currentState && previousState) {
+            // Ichimoku Tenkan-sen crosses Kijun-sen
+            const current = currentState.tenkan - currentState.kijun;
+            const previous = previousState.tenkan - previousState.kijun;
+            let trigger: AlertTrigger | null = null;
+            if (this.checkCrossUp(current, previous, 0)) {
+                trigger = this.buildTrigger(rule, indicator, currentValue, currentState.kijun, 'tk_cross_up', timestamp,
+                    `Tenkan crossed above Kijun (${this.formatValue(currentState.tenkan, 'price')} / ${this.formatValue(currentState.kijun, 'price')})`);
+            } else if (this.checkCrossDown(current, previous, 0)) {
+                trigger = this.buildTrigger(rule, indicator, currentValue, currentState.kijun, 'tk_cross_down', timestamp,
+                    `Tenkan crossed below Kijun (${this.formatValue(currentState.tenkan, 'price')} / ${this.formatValue(currentState.kijun, 'price')})`);
+            }
+            if (trigger) {
+                trigger.lines = { tenkan: currentState.tenkan, kijun: currentState.kijun };
+                triggers.push(trigger);
+            }
+        } else if (rule.mode === 'cloud_cross' && currentState && previousState && currentState.position !== previousState.position) {
+            // Price enters the cloud or leaves it (a jump through the cloud counts as leaving on the other side)
+            const cloudTop = Math.max(currentState.spanA, currentState.spanB);
+            const cloudBottom = Math.min(currentState.spanA, currentState.spanB);
+            const price = this.formatValue(currentState.close, 'price');
+            let trigger: AlertTrigger;
+            if (currentState.position === 0) {
+                trigger = this.buildTrigger(rule, indicator, currentValue, previousState.position === 1 ? cloudTop : cloudBottom, 'cloud_enter', timestamp,
+                    `Price entered the Ichimoku cloud from ${previousState.position === 1 ? 'above' : 'below'} (${price})`);
+            } else if (currentState.position === 1) {
+                trigger = this.buildTrigger(rule, indicator, currentValue, cloudTop, 'cloud_exit_up', timestamp,
+                    `Price broke above the Ichimoku cloud (${price} > ${this.formatValue(cloudTop, 'price')})`);
+            } else {
+                trigger = this.buildTrigger(rule, indicator, currentValue, cloudBottom, 'cloud_exit_down', timestamp,
+                    `Price broke below the Ichimoku cloud (${price} < ${this.formatValue(cloudBottom, 'price')})`);
+            }
+            trigger.lines = { close: currentState.close, spanA: currentState.spanA, spanB: currentState.spanB };
+            triggers.push(trigger);
+        } else if (rule.mode === 'cloud_twist' && currentState && previousState) {
+            // Future cloud changes color: Senkou A crosses Senkou B on the spans computed on this bar
+            const current = currentState.leadA - currentState.leadB;
+            const previous = previousState.leadA - previousState.leadB;
+            let trigger: AlertTrigger | null = null;
+            if (this.checkCrossUp(current, previous, 0)) {
+                trigger = this.buildTrigger(rule, indicator, currentValue, currentState.leadB, 'twist_bullish', timestamp,
+                    `Ichimoku cloud twisted bullish (Senkou A ${this.formatValue(currentState.leadA, 'price')} > Senkou B ${this.formatValue(currentState.leadB, 'price')})`);
+            } else if (this.checkCrossDown(current, previous, 0)) {
+                trigger = this.buildTrigger(rule, indicator, currentValue, currentState.leadB, 'twist_bearish', timestamp,
+                    `Ichimoku cloud twisted bearish (Senkou A ${this.formatValue(currentState.leadA, 'price')} < Senkou B ${this.formatValue(currentState.leadB, 'price')})`);
+            }
+            if (trigger) {
+                trigger.lines = { spanA: currentState.leadA, spanB: currentState.leadB };
+                triggers.push(trigger);
+            }
+        } else if (rule.mode === 'ma_cross' && currentState && previousState) {
+            // Fast line crosses slow line (golden cross = fast crosses above slow)
+            const crossover = rule.crossover ?? this.getMaCrossover(rule.indicator_params);
+            const fastName = this.describeMaLine(crossover.fast);
+            const slowName = this.describeMaLine(crossover.slow);
+            const current = currentState.fast - currentState.slow;
+            const previous = previousState.fast - previousState.slow;
+            let trigger: AlertTrigger | null = null;
+            if (this.checkCrossUp(current, previous, 0)) {
+                trigger = this.buildTrigger(rule, indicator, currentValue, currentState.slow, 'golden_cross', timestamp,
+                    `${fastName} crossed above ${slowName} (${this.formatValue(currentState.fast, 'price')} / ${this.formatValue(currentState.slow, 'price')})`);
+            } else if (this.checkCrossDown(current, previous, 0)) {
+                trigger = this.buildTrigger(rule, indicator, currentValue, currentState.slow, 'death_cross', timestamp,
+                    `${fastName} crossed below ${slowName} (${this.formatValue(currentState.fast, 'price')} / ${this.formatValue(currentState.slow, 'price')})`);
+            }
+            if (trigger) {
+                trigger.lines = { fast: currentState.fast, slow: currentState.slow };
+                triggers.push(trigger);
+            }
+        } else if (rule.mode === 'di_cross' && currentState && previousState) {
+            // +DI crosses -DI (bullish when +DI crosses above)
+            const current = currentState.plusDi - currentState.minusDi;
+            const previous = previousState.plusDi - previousState.minusDi;
+            const lines = { adx: currentState.adx, plusDi: currentState.plusDi, minusDi: currentState.minusDi };
+            let trigger: AlertTrigger | null = null;
+            if (this.checkCrossUp(current, previous, 0)) {
+                trigger = this.buildTrigger(rule, indicator, currentValue, currentState.minusDi, 'di_cross_up', timestamp,
+                    `+DI crossed above -DI (${currentState.plusDi.toFixed(1)} / ${currentState.minusDi.toFixed(1)}, ADX ${currentValue.toFixed(1)})`);
+            } else if (this.checkCrossDown(current, previous, 0)) {
+                trigger = this.buildTrigger(rule, indicator, currentValue, currentState.minusDi, 'di_cross_down', timestamp,
+                    `+DI crossed below -DI (${currentState.plusDi.toFixed(1)} / ${currentState.minusDi.toFixed(1)}, ADX ${currentValue.toFixed(1)})`);
+            }
+            if (trigger) {
+                trigger.lines = lines;
+                triggers.push(trigger);
+            }
+        } else if (rule.mode === 'slope_change' && currentState && previousState) {
+            // OBV slope over `period` bars changes sign
+            if (this.checkCrossUp(currentState.slope, previousState.slope, 0)) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, 0, 'slope_up', timestamp,
+                    `${indicatorName} slope turned up over ${rule.period || 14} bars (${currentValue.toFixed(0)})`));
+            } else if (this.checkCrossDown(currentState.slope, previousState.slope, 0)) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, 0, 'slope_down', timestamp,
+                    `${indicatorName} slope turned down over ${rule.period || 14} bars (${currentValue.toFixed(0)})`));
+            }
+        } else if (rule.mode === 'breakout' && currentState && previousState) {
+            // OBV breaks above its highest / below its lowest of the previous `period` bars
+            if (previousState.obv <= previousState.highest && currentState.obv > currentState.highest) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, currentState.highest, 'breakout_up', timestamp,
+                    `${indicatorName} broke above its ${rule.period || 14}-bar high (${currentValue.toFixed(0)} > ${currentState.highest.toFixed(0)})`));
+            } else if (previousState.obv >= previousState.lowest && currentState.obv < currentState.lowest) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, currentState.lowest, 'breakout_down', timestamp,
+                    `${indicatorName} broke below its ${rule.period || 14}-bar low (${currentValue.toFixed(0)} < ${currentState.lowest.toFixed(0)})`));
+            }
+        } else if (rule.mode === 'zero_cross') {
+            // Main line crosses zero
+            if (this.checkCrossUp(currentValue, previousValue, 0)) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, 0, 'zero_cross_up', timestamp,
+                    `${indicatorName} crossed above zero (${currentValue.toFixed(4)})`));
+            } else if (this.checkCrossDown(currentValue, previousValue, 0)) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, 0, 'zero_cross_down', timestamp,
+                    `${indicatorName} crossed below zero (${currentValue.toFixed(4)})`));
+            }
+        } else if (rule.mode === 'pattern' && currentState && previousState && currentState.barTs !== previousState.barTs) {
+            // Candlestick patterns on a newly closed bar; one trigger listing all selected patterns found
+            const selected: string[] = (rule.indicator_params as any)?.patterns?.length ? (rule.indicator_params as any).patterns : CANDLE_PATTERNS;
+            const patterns = selected.filter(pattern => currentState[pattern] === 1) as CandlePattern[];
+            if (patterns.length > 0) {
+                const bullish = patterns.some(pattern => (BULLISH_PATTERNS as readonly string[]).includes(pattern));
+                const bearish = patterns.some(pattern => (BEARISH_PATTERNS as readonly string[]).includes(pattern));
+                const type: AlertTriggerType = bullish && !bearish ? 'pattern_bullish' : bearish && !bullish ? 'pattern_bearish' : 'pattern_neutral';
+                const trigger = this.buildTrigger(rule, indicator, currentValue, 1, type, timestamp,
+                    `Candlestick pattern on close: ${patterns.map(pattern => pattern.replace(/_/g, ' ')).join(', ')}`);
+                trigger.patterns = patterns;
+                triggers.push(trigger);
+            }
+        } else if (rule.mode === 'vwap_cross' && currentState && previousState && currentState.sessionStart === previousState.sessionStart) {
+            // Price crosses VWAP (not across a session reset, where VWAP restarts at the first bar's price)
+            const current = currentState.close - currentState.vwap;
+            const previous = previousState.close - previousState.vwap;
+            if (this.checkCrossUp(current, previous, 0)) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, currentValue, 'vwap_cross_up', timestamp,
+                    `Price crossed above VWAP (${this.formatValue(currentState.close, 'price')} > ${this.formatValue(currentValue, 'price')})`));
+            } else if (this.checkCrossDown(current, previous, 0)) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, currentValue, 'vwap_cross_down', timestamp,
+                    `Price crossed below VWAP (${this.formatValue(currentState.close, 'price')} < ${this.formatValue(currentValue, 'price')})`));
+            }
+        } else if (rule.mode === 'band_break' && currentState && previousState && currentState.sessionStart === previousState.sessionStart) {
+            // Price closes outside Bollinger / VWAP bands (%B above 1 = above upper, below 0 = below lower)
+            if (this.checkCrossUp(currentState.percentB, previousState.percentB, 1)) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, currentState.upper, 'band_break_up', timestamp,
+                    `Price closed above upper ${indicatorName} band (${currentState.close.toFixed(2)} > ${currentState.upper.toFixed(2)})`));
+            } else if (this.checkCrossDown(currentState.percentB, previousState.percentB, 0)) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, currentState.lower, 'band_break_down', timestamp,
+                    `Price closed below lower ${indicatorName} band (${currentState.close.toFixed(2)} < ${currentState.lower.toFixed(2)})`));
+            }
+        } else if (rule.mode === 'percent_move' && currentState && previousState) {
+            // Price change over `period` bars crosses ±percent
+            const percent = (rule.indicator_params as any)?.percent ?? 0;
+            const bars = rule.period || 1;
+            if (this.checkCrossUp(currentState.change, previousState.change, percent)) {
+                triggers.push(this.buildTrigger(rule, indicator, currentState.change, percent, 'move_up', timestamp,
+                    `Price moved +${currentState.change.toFixed(2)}% in ${bars} bar${bars === 1 ? '' : 's'} (${this.formatValue(currentValue, indicator)})`));
+            } else if (this.checkCrossDown(currentState.change, previousState.change, -percent)) {
+                triggers.push(this.buildTrigger(rule, indicator, currentState.change, -percent, 'move_down', timestamp,
+                    `Price moved ${currentState.change.toFixed(2)}% in ${bars} bar${bars === 1 ? '' : 's'} (${this.formatValue(currentValue, indicator)})`));
+            }
+        } else if (rule.mode === 'gap' && currentState && previousState) {
+            // New bar opens at least ±percent away from previous close (once per bar)
+            const percent = (rule.indicator_params as any)?.percent ?? 0;
+            if (currentState.barTs !== previousState.barTs) {
+                if (currentState.gap >= percent) {
+                    triggers.push(this.buildTrigger(rule, indicator, currentState.gap, percent, 'gap_up', timestamp,
+                        `Price gapped up +${currentState.gap.toFixed(2)}% from previous close (${this.formatValue(currentValue, indicator)})`));
+                } else if (currentState.gap <= -percent) {
+                    triggers.push(this.buildTrigger(rule, indicator, currentState.gap, -percent, 'gap_down', timestamp,
+                        `Price gapped down ${currentState.gap.toFixed(2)}% from previous close (${this.formatValue(currentValue, indicator)})`));
+                }
+            }
+        } else if (rule.mode === 'squeeze' && currentState && previousState) {
+            // Fire when squeeze starts (bandwidth drops under its N-bar minimum)
+            if (currentState.squeeze === 1 && previousState.squeeze !== 1) {
+                triggers.push(this.buildTrigger(rule, indicator, currentValue, currentState.bandwidth, 'squeeze', timestamp,
+                    `${indicatorName} squeeze: bandwidth ${currentState.bandwidth.toFixed(2)}% at its lowest`));
             }
         }
 
         return triggers;
     }
 
+    /**
+     * Hysteresis arming per level for 'cross' mode:
+     * - upper level disarms once value goes above it, re-arms when value <= upper - hysteresis
+     * - lower level disarms once value goes below it, re-arms when value >= lower + hysteresis
+     * Inside the hysteresis band the previous flag is kept.
+     */
+    getHysteresisUpdates(
+        rule: AlertRule,
+        currentValue: number,
+        state: AlertState
+    ): Pick<AlertState, 'was_above_upper' | 'was_below_lower'> {
+        if (rule.mode !== 'cross') {
+            return {};
+        }
+
+        const hysteresis = rule.hysteresis ?? 0.5;
+        const levelsArray = rule.levelsWithNull || [rule.levels[0] ?? null, rule.levels[1] ?? null];
+        const lowerLevel = levelsArray[0];
+        const upperLevel = levelsArray[1];
+        const updates: Pick<AlertState, 'was_above_upper' | 'was_below_lower'> = {};
+
+        if (upperLevel !== null && upperLevel !== undefined) {
+            if (currentValue > upperLevel) {
+                updates.was_above_upper = 1;
+            } else if (currentValue <= upperLevel - hysteresis) {
+                updates.was_above_upper = 0;
+            } else {
+                updates.was_above_upper = state.was_above_upper ?? 0;
+            }
+        }
+
+        if (lowerLevel !== null && lowerLevel !== undefined) {
+            if (currentValue < lowerLevel) {
+                updates.was_below_lower = 1;
+            } else if (currentValue >= lowerLevel + hysteresis) {
+                updates.was_below_lower = 0;
+            } else {
+                updates.was_below_lower = state.was_below_lower ?? 0;
+            }
+        }
+
+        return updates;
+    }
+
+    /**
+     * Build trigger payload for a rule
+     */
+    buildTrigger(
+        rule: AlertRule,
+        indicator: string,
+        currentValue: number,
+        level: number,
+        type: AlertTriggerType,
+        timestamp: number,
+        message: string
+    ): AlertTrigger {
+        return {
+            ruleId: rule.id,
+            userId: rule.user_id,
+            symbol: rule.symbol,
+            indicatorValue: currentValue,
+            indicator: indicator,
+            timeframe: rule.timeframe,
+            source: rule.source || 'custom',
+            rsi: currentValue,  // Keep for backward compatibility
+            level: level,
+            type: type,
+            timestamp: timestamp,
+            message: message
+        };
+    }
+
+    /**
+     * Divergence parameters from indicator_params (defaults: pivot lookback 5, pivot distance 5-60 bars)
+     */
+    getDivergenceParams(params?: any): { pivotLookback: number; minPivotDistance: number; maxPivotDistance: number } {
+        const pivotLookback = Math.max(1, Math.floor(params?.pivotLookback ?? 5));
+        const minPivotDistance = Math.max(1, Math.floor(params?.minPivotDistance ?? 5));
+        const maxPivotDistance = Math.max(minPivotDistance, Math.floor(params?.maxPivotDistance ?? 60));
+        return { pivotLookback, minPivotDistance, maxPivotDistance };
+    }
+
+    /**
+     * Detect divergence on the latest confirmed price pivot.
+     * A pivot low/high is the lowest low/highest high within pivotLookback bars on both sides,
+     * so it is confirmed pivotLookback bars after it formed. The latest pivot is compared with the
+     * most recent earlier pivot that is minPivotDistance..maxPivotDistance bars before it.
+     * Returns the most recent of bullish/bearish divergence, or null.
+     */
+    detectDivergence(
+        candles: any[],
+        indicatorData: Array<{ value: number, state?: any }>,
+        params?: any
+    ): Divergence | null {
+        const { pivotLookback, minPivotDistance, maxPivotDistance } = this.getDivergenceParams(params);
+        // Indicator series is aligned to the end of candles
+        const offset = candles.length - indicatorData.length;
+        const valueAt = (index: number) => indicatorData[index - offset]?.value;
+
+        const findDivergence = (type: 'bullish' | 'bearish'): Divergence | null => {
+            const price = (index: number) => type === 'bullish' ? candles[index].low : candles[index].high;
+            const pivots: number[] = [];
+            for (let i = candles.length - 1 - pivotLookback; i >= offset + pivotLookback; i--) {
+                if (this.isPivot(candles, i, pivotLookback, type === 'bullish' ? 'low' : 'high')) {
+                    pivots.push(i);
+                }
+            }
+            if (pivots.length < 2) {
+                return null;
+            }
+
+            const end = pivots[0];
+            const start = pivots.find(i => end - i >= minPivotDistance && end - i <= maxPivotDistance);
+            if (start === undefined) {
+                return null;
+            }
+
+            const startValue = valueAt(start);
+            const endValue = valueAt(end);
+            if (!isFinite(startValue) || !isFinite(endValue)) {
+                return null;
+            }
+
+            const isDivergence = type === 'bullish'
+                ? price(end) < price(start) && endValue > startValue
+                : price(end) > price(start) && endValue < startValue;
+            if (!isDivergence) {
+                return null;
+            }
+
+            return {
+                type,
+                startTs: candles[start].timestamp,
+                endTs: candles[end].timestamp,
+                startPrice: price(start),
+                endPrice: price(end),
+                startValue,
+                endValue,
+            };
+        };
+
+        const bullish = findDivergence('bullish');
+        const bearish = findDivergence('bearish');
+        if (bullish && bearish) {
+            return bullish.endTs >= bearish.endTs ? bullish : bearish;
+        }
+        return bullish || bearish;
+    }
+
+    /**
+     * Check if bar is a pivot low/high: extreme within lookback bars on both sides
+     * (ties allowed on the left so a flat bottom/top yields a single pivot)
+     */
+    isPivot(candles: any[], index: number, lookback: number, kind: 'low' | 'high'): boolean {
+        const value = candles[index][kind];
+        for (let j = index - lookback; j <= index + lookback; j++) {
+            if (j === index) continue;
+            const other = candles[j][kind];
+            const beyond = kind === 'low'
+                ? (j < index ? other < value : other <= value)
+                : (j < index ? other > value : other >= value);
+            if (beyond) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Format value for messages (prices keep significant digits, oscillators one decimal)
+     */
+    formatValue(value: number, indicator: string): string {
+        return indicator.toLowerCase() === 'price'
+            ? Number(value.toPrecision(6)).toString()
+            : value.toFixed(1);
+    }
+
     /**
      * Check upward crossing
      */
@@ -733,18 +3204,10 @@ export class IndicatorEngine {
 
     /**
      * Determine if a single level is upper or lower based on indicator type and value
-     * - For RSI/STOCH (0-100 range): >= 50 is upper, < 50 is lower
-     * - For Williams %R (-100 to 0 range): >= -50 is upper, < -50 is lower
+     * - At or above the indicator zone midpoint (registry zoneMidpoint, default 50) is upper
      */
     isUpperLevel(level: number, indicator: string): boolean {
-        const indicatorLower = indicator.toLowerCase();
-        if (indicatorLower === 'williams' || indicatorLower === 'wpr') {
-            // Williams %R: range -100 to 0, typical levels -80 (lower) and -20 (upper)
-            return level >= -50;
-        } else {
-            // RSI/STOCH: range 0 to 100, typical levels 30 (lower) and 70 (upper)
-            return level >= 50;
-        }
+        return level >= (getIndicator(indicator)?.zoneMidpoint ?? 50);
     }
 
     /**
@@ -853,10 +3316,21 @@ export class IndicatorEngine {
         `).bind(ruleId, ...values).run();
     }
 
+    /**
+     * Deactivate a one-shot rule after its alert was delivered (status 'triggered' in GET /alerts/:userId)
+     */
+    async deactivateRule(ruleId: number): Promise<void> {
+        await this.db.prepare(`
+          UPDATE alert_rule SET active = 0 WHERE id = ?
+        `).bind(ruleId).run();
+        await this.updateAlertState(ruleId, { deactivated_reason: 'triggered', deactivated_at: Date.now() });
+        console.log(`Rule ${ruleId}: not repeatable, deactivated after delivered trigger`);
+    }
+
     /**
      * Save alert event (universal for all indicators)
      */
-    async saveAlertEvent(ruleId: number, trigger: AlertTrigger): Promise<void> {
+    async saveAlertEvent(ruleId: number, trigger: AlertTrigger, barTs: number): Promise<void> {
         await this.db.prepare(`
       INSERT INTO alert_event (rule_id, ts, indicator_value, indicator, rsi, level, side, bar_ts, symbol)
       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
@@ -868,11 +3342,138 @@ export class IndicatorEngine {
             trigger.rsi || trigger.indicatorValue,  // Keep rsi for backward compatibility
             trigger.level,
             trigger.type,
-            trigger.timestamp,
+            barTs,
             trigger.symbol
         ).run();
     }
 
+    /**
+     * Expected price direction after trigger: 1 = up, -1 = down, 0 = none.
+     * Level crossings of bounded oscillators are read as mean reversion (RSI crossing below 30 expects a bounce),
+     * of unbounded indicators (price, MACD, OBV...) as breakouts in the crossing direction.
+     */
+    getTriggerDirection(type: string, indicator: string): number {
+        if (type === 'cross_up' || type === 'cross_down') {
+            const direction = type === 'cross_up' ? 1 : -1;
+            return getLevelRange(indicator) ? -direction : direction;
+        }
+        if (BULLISH_TRIGGER_TYPES.includes(type as AlertTriggerType)) {
+            return 1;
+        }
+        if (BEARISH_TRIGGER_TYPES.includes(type as AlertTriggerType)) {
+            return -1;
+        }
+        return 0;
+    }
+
+    /**
+     * Fill forward performance of alert events (cron job): close of the bar the alert fired on (ref_close),
+     * % change of close FORWARD_RETURN_BARS bars later (change_N) and max adverse excursion over those bars
+     * (largest % move against the expected direction, 0 if none). Events are revisited until the last horizon
+     * bar has closed, or dropped when their bar is no longer in the provider history.
+     * History is read without writing the shared candle cache (see loadHistory).
+     * Returns number of events completed.
+     */
+    async updateEventPerformance(): Promise<number> {
+        const result = await this.db.prepare(`
+      SELECT e.id, e.ts, e.bar_ts, e.side, e.indicator, ar.symbol, ar.timeframe, ar.alert_on_close
+      FROM alert_event e
+      JOIN alert_rule ar ON ar.id = e.rule_id
+      WHERE e.performance_done = 0
+      ORDER BY COALESCE(e.performance_updated_at, 0), e.ts
+      LIMIT ?
+    `).bind(MAX_PERFORMANCE_EVENTS).all<{ id: number; ts: number; bar_ts: number | null; side: string; indicator: string | null; symbol: string; timeframe: string; alert_on_close: number }>();
+        const events = result.results || [];
+        if (events.length === 0) {
+            return 0;
+        }
+
+        const eventsByPair = new Map<string, typeof events>();
+        for (const event of events) {
+            const key = `${event.symbol}|${event.timeframe}`;
+            eventsByPair.set(key, [...(eventsByPair.get(key) || []), event]);
+        }
+
+        const now = Date.now();
+        const maxBars = Math.max(...FORWARD_RETURN_BARS);
+        const changeColumns = FORWARD_RETURN_BARS.map(bars => `change_${bars} = ?`).join(', ');
+        const statements: D1PreparedStatement[] = [];
+        let completed = 0;
+
+        for (const [key, pairEvents] of eventsByPair) {
+            const [symbol, timeframe] = key.split('|');
+            const tfMs = getTimeframeMs(timeframe);
+            // The event bar closes by this time: bar_ts is the open of the bar the alert fired on (closed bar for
+            // alert_on_close rules, forming bar otherwise). Older events stored the fire time there instead:
+            // the bar containing it, or for alert_on_close rules the bar closed just before it
+            const eventCloseTs = (event: typeof events[number]) => {
+                if (event.bar_ts !== null && event.bar_ts !== event.ts) {
+                    return event.bar_ts + tfMs;
+                }
+                return event.alert_on_close ? event.ts : event.ts + tfMs;
+            };
+            const oldestTs = Math.min(...pairEvents.map(eventCloseTs)) - tfMs;
+            // History back to the oldest event bar (bounded like backtests)
+            const candleLimit = Math.min(Math.ceil((now - oldestTs) / tfMs) + 2, 5000);
+
+            let candles: any[];
+            try {
+                const loaded = await this.loadHistory(symbol, timeframe, Math.max(candleLimit, this.getCandleLimit(timeframe, 0)));
+                candles = this.getClosedCandles(loaded, timeframe).candlesClosed;
+            } catch (error) {
+                console.error(`Performance: could not load candles for ${symbol} ${timeframe}:`, error);
+                continue;
+            }
+
+            for (const event of pairEvents) {
+                const closeTs = eventCloseTs(event);
+                const index = this.findLastClosedIndex(candles, timeframe, closeTs);
+                if (index < 0) {
+                    // Older than the provider history - nothing to measure
+                    statements.push(this.db.prepare(`
+            UPDATE alert_event SET performance_done = 1, performance_updated_at = ? WHERE id = ?
+          `).bind(now, event.id));
+                    completed++;
+                    continue;
+                }
+                if (index === candles.length - 1 && candles[index].timestamp + tfMs <= closeTs - tfMs) {
+                    // Event bar has not closed yet
+                    statements.push(this.db.prepare(`
+            UPDATE alert_event SET performance_updated_at = ? WHERE id = ?
+          `).bind(now, event.id));
+                    continue;
+                }
+
+                const refClose = candles[index].close;
+                const direction = this.getTriggerDirection(event.side, event.indicator || 'rsi');
+                const changes = this.getForwardReturns(candles, index);
+                const laterBars = candles.slice(index + 1, index + 1 + maxBars);
+                let maxAdverse: number | null = null;
+                if (direction !== 0 && laterBars.length > 0 && refClose) {
+                    const adverse = direction > 0
+                        ? (refClose - Math.min(...laterBars.map(candle => candle.low))) / refClose * 100
+                        : (Math.max(...laterBars.map(candle => candle.high)) - refClose) / refClose * 100;
+                    maxAdverse = Math.max(0, adverse);
+                }
+                const done = index + maxBars < candles.length ? 1 : 0;
+                completed += done;
+
+                statements.push(this.db.prepare(`
+          UPDATE alert_event
+          SET ref_close = ?, ${changeColumns}, max_adverse = ?, direction = ?, performance_done = ?, performance_updated_at = ?
+          WHERE id = ?
+        `).bind(refClose, ...FORWARD_RETURN_BARS.map(bars => changes[bars]), maxAdverse, direction, done, now, event.id));
+            }
+        }
+
+        const BATCH_SIZE = 100;
+        for (let i = 0; i < statements.length; i += BATCH_SIZE) {
+            await this.db.batch(statements.slice(i, i + BATCH_SIZE));
+        }
+
+        return completed;
+    }
+
     /**
      * Check alerts for list of symbols
      */
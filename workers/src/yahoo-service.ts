@@ -41,6 +41,7 @@ export interface SymbolInfo {
     type: string;
     currency: string;
     exchange: string;
+    timezone?: string;  // IANA exchange timezone (e.g. 'America/New_York'), for session boundaries
 }
 
 export class YahooService {
@@ -274,6 +275,7 @@ export class YahooService {
                 type: this.getSymbolType(symbol),
                 currency: meta.currency || 'USD',
                 exchange: meta.exchangeName || 'Unknown',
+                timezone: meta.exchangeTimezoneName,
             };
         } catch (error) {
             console.error(`Error fetching symbol info for ${symbol}:`, error);
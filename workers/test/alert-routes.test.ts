@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { callApi, createD1 } from './helpers';
+
+let db: D1Database;
+
+/** Create a rule through the API and return its id */
+async function createRule(body: Record<string, any>): Promise<number> {
+    const response = await callApi(db, 'POST', '/alerts/create', {
+        userId: 'user_1',
+        symbol: 'AAPL',
+        timeframe: '1h',
+        ...body,
+    });
+    expect(response.status).toBe(200);
+    return response.body.id;
+}
+
+const getRuleRow = (ruleId: number) => db.prepare(`SELECT * FROM alert_rule WHERE id = ?`).bind(ruleId).first<Record<string, any>>();
+
+beforeEach(async () => {
+    db = await createD1();
+});
+
+describe('PUT /alerts/:ruleId', () => {
+    it('stores indicatorParams in the indicator_params column', async () => {
+        const ruleId = await createRule({ indicator: 'macd', mode: 'signal_cross', levels: [null, null] });
+
+        const response = await callApi(db, 'PUT', `/alerts/${ruleId}`, {
+            userId: 'user_1',
+            indicatorParams: { fastPeriod: 8, slowPeriod: 21, signalPeriod: 5 },
+        });
+        expect(response).toEqual({ status: 200, body: { success: true } });
+        expect(JSON.parse((await getRuleRow(ruleId))!.indicator_params)).toEqual({ fastPeriod: 8, slowPeriod: 21, signalPeriod: 5 });
+    });
+
+    it('validates indicatorParams against the indicator', async () => {
+        const ruleId = await createRule({ indicator: 'macd', mode: 'signal_cross', levels: [null, null] });
+
+        const response = await callApi(db, 'PUT', `/alerts/${ruleId}`, { userId: 'user_1', indicatorParams: { fastPeriod: 0 } });
+        expect(response.status).toBe(400);
+        expect((await getRuleRow(ruleId))!.indicator_params).toBeNull();
+    });
+
+    it('resets the stored value and calculation state when the series changes', async () => {
+        const ruleId = await createRule({ indicator: 'macd', mode: 'signal_cross', levels: [null, null] });
+        await db.prepare(`
+          INSERT INTO alert_state (rule_id, last_indicator_value, last_rsi, indicator_state) VALUES (?, 1.5, 1.5, '{}')
+        `).bind(ruleId).run();
+
+        await callApi(db, 'PUT', `/alerts/${ruleId}`, { userId: 'user_1', indicatorParams: { fastPeriod: 8 } });
+        const state = await db.prepare(`SELECT * FROM alert_state WHERE rule_id = ?`).bind(ruleId).first<Record<string, any>>();
+        expect(state).toMatchObject({ last_indicator_value: null, last_rsi: null, indicator_state: null });
+    });
+
+    it('re-derives the default hysteresis when the indicator changes', async () => {
+        const ruleId = await createRule({ indicator: 'rsi', levels: [30, 70] });
+        expect((await getRuleRow(ruleId))!.hysteresis).toBe(0.5);
+
+        // MACD is in price units: 0.5 would keep levels disarmed on small-priced symbols
+        await callApi(db, 'PUT', `/alerts/${ruleId}`, { userId: 'user_1', indicator: 'macd', levels: [-1, 1] });
+        expect((await getRuleRow(ruleId))!.hysteresis).toBe(0);
+
+        await callApi(db, 'PUT', `/alerts/${ruleId}`, { userId: 'user_1', indicator: 'rsi', levels: [30, 70], hysteresis: 2 });
+        expect((await getRuleRow(ruleId))!.hysteresis).toBe(2);
+    });
+});
+
+describe('PUT /alerts/:ruleId body fields', () => {
+    it('ignores keys that are not updatable fields', async () => {
+        const ruleId = await createRule({ indicator: 'rsi', levels: [30, 70] });
+
+        // Raw column names would bypass validation (malformed filter JSON breaks loading active rules)
+        const response = await callApi(db, 'PUT', `/alerts/${ruleId}`, {
+            userId: 'user_1', filter_condition: '{not json', user_id: 'user_2', id: 99, cooldown_sec: 60,
+        });
+        expect(response.status).toBe(200);
+        expect(await getRuleRow(ruleId)).toMatchObject({ id: ruleId, user_id: 'user_1', filter_condition: null, cooldown_sec: 60 });
+    });
+
+    it('rejects a request without updatable fields', async () => {
+        const ruleId = await createRule({ indicator: 'rsi', levels: [30, 70] });
+        expect((await callApi(db, 'PUT', `/alerts/${ruleId}`, { userId: 'user_1', filter_condition: '{}' })).status).toBe(400);
+    });
+
+    it('validates indicator_params sent as a JSON string by the app', async () => {
+        const ruleId = await createRule({ indicator: 'macd', mode: 'signal_cross', levels: [null, null] });
+
+        const response = await callApi(db, 'PUT', `/alerts/${ruleId}`, {
+            userId: 'user_1', indicator_params: JSON.stringify({ fastPeriod: 8 }), active: true,
+        });
+        expect(response.status).toBe(200);
+        expect(await getRuleRow(ruleId)).toMatchObject({ indicator_params: '{"fastPeriod":8}', active: 1 });
+
+        expect((await callApi(db, 'PUT', `/alerts/${ruleId}`, { userId: 'user_1', indicator_params: '{not json' })).status).toBe(400);
+    });
+});
+
+describe('lookback vs provider history', () => {
+    // SMA(50) vs SMA(200) needs 200 bars
+    const maCross = { indicator: 'ma', mode: 'ma_cross', levels: [null, null] };
+
+    it('rejects rules whose lookback exceeds the provider history', async () => {
+        const response = await callApi(db, 'POST', '/alerts/create', { userId: 'user_1', symbol: 'AAPL', timeframe: '15m', ...maCross });
+        expect(response.status).toBe(400);
+        expect(response.body.error).toMatch(/^Lookback too long: needs 200 15m bars/);
+    });
+
+    it('checks updates against the updated rule', async () => {
+        const ruleId = await createRule(maCross);
+        const response = await callApi(db, 'PUT', `/alerts/${ruleId}`, { userId: 'user_1', timeframe: '15m' });
+        expect(response.status).toBe(400);
+        expect((await getRuleRow(ruleId))!.timeframe).toBe('1h');
+    });
+});
+
+describe('POST /alerts/backtest date range', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+    const backtest = (body: Record<string, any>) => callApi(db, 'POST', '/alerts/backtest', {
+        userId: 'user_1', symbol: 'AAPL', indicator: 'rsi', levels: [30, 70], ...body,
+    });
+
+    it('measures the range in session bars for stocks', async () => {
+        // Passes the history checks and reaches the user check (user_1 has no registered device)
+        expect((await backtest({ timeframe: '1m', from: Date.now() - DAY_MS })).status).toBe(403);
+        expect((await backtest({ timeframe: '1h', from: Date.now() - 150 * DAY_MS })).status).toBe(403);
+    });
+
+    it('rejects ranges past the provider history', async () => {
+        const response = await backtest({ timeframe: '1m', from: Date.now() - 7 * DAY_MS });
+        expect(response.status).toBe(400);
+        expect(response.body.error).toMatch(/^Date range too long/);
+    });
+});
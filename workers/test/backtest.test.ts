@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import { DataProviderService } from '../src/data-provider-service';
+import { FORWARD_RETURN_BARS } from '../src/rsi-engine';
+import { createEngine, createRule, HOUR_MS, makeCandles } from './helpers';
+
+// Flat at 100, closes above 105 on bars 30 and 32
+const closes = [...Array(30).fill(100), 106, 100, 106, 103, 102, 101, 100, 99, 98, 97, 96, 95, 94, 93, 92, 91, 90, 89, 88, 87, 86, 85, 84];
+const candles = makeCandles(closes);
+
+/** Data provider stub serving `candles` and recording fetch options */
+function createProvider() {
+    const fetches: any[] = [];
+    return {
+        fetches,
+        getCachedCandles: async () => null,
+        getCandles: async (_symbol: string, _timeframe: string, options: any) => {
+            fetches.push(options);
+            return { candles, provider: 'yahoo' };
+        },
+    };
+}
+
+const priceRule = (row: Record<string, any> = {}) => createRule(createEngine(), { indicator: 'price', period: 1, levels: '[null,105]', ...row });
+
+describe('backtestRule', () => {
+    it('replays crossings over the range with forward returns', async () => {
+        const provider = createProvider();
+        const engine = createEngine({}, provider);
+        const result = await engine.backtestRule(priceRule(), candles[20].timestamp, Date.now());
+
+        expect(result.triggers.map(trigger => [trigger.type, trigger.barTs])).toEqual([
+            ['cross_up', candles[30].timestamp],
+            ['cross_up', candles[32].timestamp],
+        ]);
+        // Stamped with the bar close
+        expect(result.triggers[0].timestamp).toBe(candles[30].timestamp + HOUR_MS);
+        expect(result.triggers[0].forwardReturns[1]).toBeCloseTo((100 / 106 - 1) * 100, 9);
+        expect(result.triggers[0].forwardReturns[5]).toBeCloseTo((101 / 106 - 1) * 100, 9);
+        expect(result.triggers[0].forwardReturns[20]).toBeCloseTo((86 / 106 - 1) * 100, 9);
+        expect(result.stats).toMatchObject({ count: 2, avgBarsBetween: 2 });
+        expect(result.bars).toBe(candles.length - 20);
+        expect(result.coveredFrom).toBe(candles[20].timestamp);
+        // History is read without writing the shared candle cache
+        expect(provider.fetches).toEqual([expect.objectContaining({ readOnly: true })]);
+    });
+
+    it('applies cooldown in bar time and stops one-shot rules after the first trigger', async () => {
+        const from = candles[20].timestamp;
+        const cooldown = await createEngine({}, createProvider()).backtestRule(priceRule({ cooldown_sec: 3 * 3600 }), from, Date.now());
+        expect(cooldown.triggers.map(trigger => trigger.barTs)).toEqual([candles[30].timestamp]);
+
+        const oneShot = await createEngine({}, createProvider()).backtestRule(priceRule({ repeatable: 0 }), from, Date.now());
+        expect(oneShot.triggers).toHaveLength(1);
+    });
+
+    it('only warms up on bars before the range', async () => {
+        const result = await createEngine({}, createProvider()).backtestRule(priceRule(), candles[31].timestamp, Date.now());
+        expect(result.triggers.map(trigger => trigger.barTs)).toEqual([candles[32].timestamp]);
+    });
+
+    it('reports where the replay started when history is shorter than the range', async () => {
+        const engine = createEngine({}, createProvider());
+        const result = await engine.backtestRule(priceRule(), candles[0].timestamp - 100 * HOUR_MS, Date.now());
+        const firstEvaluated = candles.length - engine.getIndicatorSeries(candles, 'price', 1).length + 1;
+        expect(result.coveredFrom).toBe(candles[firstEvaluated].timestamp);
+        expect(result.bars).toBe(candles.length - firstEvaluated);
+    });
+});
+
+describe('getForwardReturns', () => {
+    it('returns % change per horizon, null past the last candle', () => {
+        const engine = createEngine();
+        const returns = engine.getForwardReturns(candles, candles.length - 3);
+        expect(Object.keys(returns).map(Number)).toEqual(FORWARD_RETURN_BARS);
+        expect(returns[1]).toBeCloseTo((85 / 86 - 1) * 100, 9);
+        expect(returns[5]).toBeNull();
+        expect(returns[20]).toBeNull();
+    });
+});
+
+describe('getTriggerDirection', () => {
+    it('reads level crossings of oscillators as mean reversion and of unbounded indicators as breakouts', () => {
+        const engine = createEngine();
+        expect(engine.getTriggerDirection('cross_down', 'rsi')).toBe(1);
+        expect(engine.getTriggerDirection('cross_up', 'rsi')).toBe(-1);
+        expect(engine.getTriggerDirection('cross_up', 'price')).toBe(1);
+        expect(engine.getTriggerDirection('signal_cross_down', 'macd')).toBe(-1);
+        expect(engine.getTriggerDirection('conditions_met', 'composite')).toBe(0);
+    });
+});
+
+describe('updateEventPerformance', () => {
+    /** D1 stub: SELECT returns `events`, batched UPDATEs are recorded with their bindings */
+    function createDb(events: any[]) {
+        const updates: any[][] = [];
+        const db = {
+            prepare: (_sql: string) => ({
+                bind: (...values: any[]) => ({ values, all: async () => ({ results: events }) }),
+            }),
+            batch: async (statements: any[]) => {
+                updates.push(...statements.map(statement => statement.values));
+            },
+        };
+        return { db, updates };
+    }
+
+    const event = (id: number, fields: Record<string, any>) => ({
+        id, side: 'cross_down', indicator: 'rsi', symbol: 'AAPL', timeframe: '1h', alert_on_close: 1, ...fields,
+    });
+
+    it('measures from the bar the alert fired on', async () => {
+        const bar = candles[30].timestamp;
+        const { db, updates } = createDb([
+            // alert_on_close: bar_ts is the closed bar, fired just after its close
+            event(1, { ts: bar + HOUR_MS + 30_000, bar_ts: bar }),
+            // Forming-bar rule: bar_ts is the bar the alert fired in
+            event(2, { ts: bar + 600_000, bar_ts: bar, alert_on_close: 0 }),
+            // Older rows stored the fire time as bar_ts
+            event(3, { ts: bar + HOUR_MS + 30_000, bar_ts: bar + HOUR_MS + 30_000 }),
+            event(4, { ts: bar + 600_000, bar_ts: bar + 600_000, alert_on_close: 0 }),
+        ]);
+        const provider = createProvider();
+        const completed = await createEngine(db, provider).updateEventPerformance();
+
+        expect(completed).toBe(4);
+        for (const values of updates) {
+            const [refClose, change1, change5, change20, maxAdverse, direction, done] = values;
+            expect(refClose).toBe(106);
+            expect(change1).toBeCloseTo((100 / 106 - 1) * 100, 9);
+            expect(change5).toBeCloseTo((101 / 106 - 1) * 100, 9);
+            expect(change20).toBeCloseTo((86 / 106 - 1) * 100, 9);
+            // Expected bounce (RSI cross_down); worst low over the next 20 bars is 85.5
+            expect(direction).toBe(1);
+            expect(maxAdverse).toBeCloseTo((106 - 85.5) / 106 * 100, 9);
+            expect(done).toBe(1);
+        }
+        expect(updates.map(values => values[values.length - 1])).toEqual([1, 2, 3, 4]);
+        expect(provider.fetches.every(options => options.readOnly)).toBe(true);
+    });
+
+    it('keeps events open until the last horizon bar has closed', async () => {
+        const bar = candles[candles.length - 3].timestamp;
+        const { db, updates } = createDb([event(1, { ts: bar + HOUR_MS + 30_000, bar_ts: bar })]);
+        expect(await createEngine(db, createProvider()).updateEventPerformance()).toBe(0);
+        const [refClose, change1, change5, , , , done] = updates[0];
+        expect(refClose).toBe(86);
+        expect(change1).toBeCloseTo((85 / 86 - 1) * 100, 9);
+        expect(change5).toBeNull();
+        expect(done).toBe(0);
+    });
+
+    it('drops events older than the provider history', async () => {
+        const { db, updates } = createDb([event(1, { ts: candles[0].timestamp - 10 * HOUR_MS, bar_ts: candles[0].timestamp - 11 * HOUR_MS })]);
+        expect(await createEngine(db, createProvider()).updateEventPerformance()).toBe(1);
+        // performance_done only (performance_updated_at, id)
+        expect(updates[0]).toHaveLength(2);
+    });
+});
+
+describe('DataProviderService readOnly', () => {
+    it('neither reads nor writes the candle cache', async () => {
+        const queries: string[] = [];
+        const db = { prepare: (sql: string) => { queries.push(sql); throw new Error('unexpected query'); } };
+        const yahoo = { getCandles: async () => candles };
+        const service = new DataProviderService(yahoo as any, {} as any, db as any);
+
+        const result = await service.getCandles('AAPL', '1h', { limit: 100, readOnly: true });
+        expect(result.candles).toBe(candles);
+        expect(queries).toEqual([]);
+    });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { RuleCondition } from '../src/rsi-engine';
+import { createEngine, HOUR_MS, makeCandles } from './helpers';
+
+const engine = createEngine();
+// Closes 100..109 then a drop to 95
+const candles = makeCandles([100, 101, 102, 103, 104, 105, 106, 107, 108, 109, 95]);
+const byTimeframe = { '1h': candles };
+
+const price = (operator: RuleCondition['operator'], value: number): RuleCondition => ({ indicator: 'price', period: 1, operator, value });
+
+describe('evaluateExpression', () => {
+    it('combines conditions with and / or', () => {
+        const and = engine.evaluateExpression({ combinator: 'and', conditions: [price('below', 100), price('above', 90)] }, byTimeframe, '1h');
+        expect(and).toMatchObject({ met: true });
+        expect(and!.values.map(value => value.value)).toEqual([95, 95]);
+
+        expect(engine.evaluateExpression({ combinator: 'and', conditions: [price('below', 100), price('above', 96)] }, byTimeframe, '1h')!.met).toBe(false);
+        expect(engine.evaluateExpression({ combinator: 'or', conditions: [price('below', 100), price('above', 96)] }, byTimeframe, '1h')!.met).toBe(true);
+    });
+
+    it('evaluates crossing operators against the previous bar', () => {
+        expect(engine.evaluateExpression({ combinator: 'and', conditions: [price('crosses_below', 100)] }, byTimeframe, '1h')!.met).toBe(true);
+        expect(engine.evaluateExpression({ combinator: 'and', conditions: [price('crosses_above', 100)] }, byTimeframe, '1h')!.met).toBe(false);
+    });
+
+    it('counts a condition held on any of the last withinBars bars', () => {
+        const above = { combinator: 'and' as const, conditions: [price('above', 105)] };
+        expect(engine.evaluateExpression(above, byTimeframe, '1h')!.met).toBe(false);
+        expect(engine.evaluateExpression({ ...above, withinBars: 2 }, byTimeframe, '1h')!.met).toBe(true);
+    });
+
+    it('evaluates on the last bar closed by closeTs (backtest replay)', () => {
+        const closeTs = candles[5].timestamp + HOUR_MS;
+        const evaluation = engine.evaluateExpression({ combinator: 'and', conditions: [price('above', 104)] }, byTimeframe, '1h', closeTs);
+        expect(evaluation).toMatchObject({ met: true, values: [{ value: 105 }] });
+    });
+
+    it('uses each condition\'s own timeframe', () => {
+        const daily = makeCandles([50, 58, 60]);
+        const evaluation = engine.evaluateExpression({
+            combinator: 'and',
+            conditions: [price('below', 100), { ...price('above', 55), timeframe: '1d' }],
+        }, { '1h': candles, '1d': daily }, '1h');
+        expect(evaluation).toMatchObject({ met: true, values: [{ timeframe: '1h', value: 95 }, { timeframe: '1d', value: 60 }] });
+    });
+
+    it('returns null when a condition lacks indicator data', () => {
+        const rsi: RuleCondition = { indicator: 'rsi', period: 14, operator: 'below', value: 30 };
+        expect(engine.evaluateExpression({ combinator: 'or', conditions: [price('below', 100), rsi] }, byTimeframe, '1h')).toBeNull();
+        expect(engine.evaluateExpression({ combinator: 'and', conditions: [{ ...price('above', 0), timeframe: '4h' }] }, byTimeframe, '1h')).toBeNull();
+    });
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { createEngine, createRule } from './helpers';
+
+const engine = createEngine();
+const types = (triggers: Array<{ type: string }>) => triggers.map(trigger => trigger.type);
+
+describe('checkCrossings: cross mode', () => {
+    const rule = createRule(engine);
+
+    it('fires cross_down on the lower level and cross_up on the upper level', () => {
+        expect(types(engine.checkCrossings(rule, 29, 31, 0))).toEqual(['cross_down']);
+        expect(types(engine.checkCrossings(rule, 71, 69, 0))).toEqual(['cross_up']);
+    });
+
+    it('is one-way per level', () => {
+        // Rising through the lower level / falling through the upper level is not an alert
+        expect(engine.checkCrossings(rule, 31, 29, 0)).toEqual([]);
+        expect(engine.checkCrossings(rule, 69, 71, 0)).toEqual([]);
+    });
+
+    it('treats touching the level from outside as armed', () => {
+        expect(types(engine.checkCrossings(rule, 29.9, 30, 0))).toEqual(['cross_down']);
+        expect(types(engine.checkCrossings(rule, 70.1, 70, 0))).toEqual(['cross_up']);
+    });
+
+    it('skips disabled (null) levels', () => {
+        const upperOnly = createRule(engine, { levels: '[null,70]' });
+        expect(engine.checkCrossings(upperOnly, 20, 40, 0)).toEqual([]);
+        expect(types(engine.checkCrossings(upperOnly, 75, 65, 0))).toEqual(['cross_up']);
+    });
+
+    it('uses stored arming instead of the previous value when present', () => {
+        // Previous value was above the level, but the level is still disarmed from an earlier dip
+        expect(engine.checkCrossings(rule, 29, 30.2, 0, 'rsi', undefined, undefined, { was_below_lower: 1 })).toEqual([]);
+        expect(types(engine.checkCrossings(rule, 29, 30.2, 0, 'rsi', undefined, undefined, { was_below_lower: 0 }))).toEqual(['cross_down']);
+    });
+});
+
+describe('getHysteresisUpdates', () => {
+    const rule = createRule(engine, { hysteresis: 1 });
+
+    it('disarms a level once the value is beyond it', () => {
+        expect(engine.getHysteresisUpdates(rule, 29, { rule_id: 1 })).toEqual({ was_above_upper: 0, was_below_lower: 1 });
+        expect(engine.getHysteresisUpdates(rule, 71, { rule_id: 1 })).toEqual({ was_above_upper: 1, was_below_lower: 0 });
+    });
+
+    it('keeps the previous flag inside the hysteresis band and re-arms past it', () => {
+        const disarmed = { rule_id: 1, was_above_upper: 1, was_below_lower: 1 };
+        expect(engine.getHysteresisUpdates(rule, 30.5, disarmed).was_below_lower).toBe(1);
+        expect(engine.getHysteresisUpdates(rule, 31, disarmed).was_below_lower).toBe(0);
+        expect(engine.getHysteresisUpdates(rule, 69.5, disarmed).was_above_upper).toBe(1);
+        expect(engine.getHysteresisUpdates(rule, 69, disarmed).was_above_upper).toBe(0);
+    });
+
+    it('suppresses repeated crossings while the value chops around the level', () => {
+        let state: any = { rule_id: 1 };
+        const fired: number[] = [];
+        const values = [32, 29, 30.4, 29.6, 30.8, 29.2, 31.5, 29];
+        for (let i = 1; i < values.length; i++) {
+            if (engine.checkCrossings(rule, values[i], values[i - 1], i, 'rsi', undefined, undefined, state).length > 0) {
+                fired.push(i);
+            }
+            state = { ...state, ...engine.getHysteresisUpdates(rule, values[i], state) };
+        }
+        // Re-armed only after rising to 31.5 (lower + hysteresis)
+        expect(fired).toEqual([1, 7]);
+    });
+
+    it('only applies to cross mode', () => {
+        expect(engine.getHysteresisUpdates(createRule(engine, { mode: 'enter' }), 29, { rule_id: 1 })).toEqual({});
+    });
+});
+
+describe('checkCrossings: zone modes', () => {
+    it('detects zone entry and exit', () => {
+        const enter = createRule(engine, { mode: 'enter' });
+        const exit = createRule(engine, { mode: 'exit' });
+        expect(types(engine.checkCrossings(enter, 50, 25, 0))).toEqual(['enter_zone']);
+        expect(types(engine.checkCrossings(exit, 75, 50, 0))).toEqual(['exit_zone']);
+        expect(engine.checkCrossings(enter, 50, 45, 0)).toEqual([]);
+    });
+});
+
+describe('checkCrossings: MACD modes', () => {
+    const below = { macd: 0.1, signal: 0.2, histogram: -0.1 };
+    const above = { macd: 0.3, signal: 0.2, histogram: 0.1 };
+
+    it('detects MACD signal line crosses from point state', () => {
+        const rule = createRule(engine, { indicator: 'macd', mode: 'signal_cross', levels: '[]' });
+        expect(types(engine.checkCrossings(rule, 0.3, 0.1, 0, 'macd', above, below))).toEqual(['signal_cross_up']);
+        expect(types(engine.checkCrossings(rule, 0.1, 0.3, 0, 'macd', below, above))).toEqual(['signal_cross_down']);
+        expect(engine.checkCrossings(rule, 0.3, 0.3, 0, 'macd', above, above)).toEqual([]);
+    });
+
+    it('evaluates histogram_flip like signal_cross with its own trigger types', () => {
+        const rule = createRule(engine, { indicator: 'macd', mode: 'histogram_flip', levels: '[]' });
+        expect(types(engine.checkCrossings(rule, 0.3, 0.1, 0, 'macd', above, below))).toEqual(['histogram_positive']);
+        expect(types(engine.checkCrossings(rule, 0.1, 0.3, 0, 'macd', below, above))).toEqual(['histogram_negative']);
+        expect(engine.checkCrossings(rule, 0.3, 0.3, 0, 'macd', above, above)).toEqual([]);
+    });
+});
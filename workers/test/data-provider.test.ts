@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { BinanceService } from '../src/binance-service';
+import { DataProviderService } from '../src/data-provider-service';
+import { YahooService } from '../src/yahoo-service';
+import { HOUR_MS } from './helpers';
+
+const dataProviderService = new DataProviderService(new YahooService(''), new BinanceService(), {} as D1Database);
+
+describe('DataProviderService.getMaxHistoryBars', () => {
+    it('counts stock session bars: ~3 sessions of minute bars, ~500 sessions otherwise', () => {
+        expect(dataProviderService.getMaxHistoryBars('AAPL', '15m')).toBe(78);
+        expect(dataProviderService.getMaxHistoryBars('AAPL', '1h')).toBe(3250);
+        expect(dataProviderService.getMaxHistoryBars('AAPL', '1d')).toBe(500);
+    });
+
+    it('counts forex around the clock', () => {
+        expect(dataProviderService.getMaxHistoryBars('EURUSD=X', '1h')).toBe(12000);
+    });
+
+    it('caps crypto at the candles Binance returns per request', () => {
+        expect(dataProviderService.getMaxHistoryBars('BTC-USD', '1h')).toBe(1000);
+        expect(dataProviderService.getMaxHistoryBars('BTC-USD', '15m')).toBe(480);
+        expect(dataProviderService.getMaxHistoryBars('BTC-USD', '1d')).toBe(730);
+    });
+});
+
+describe('DataProviderService.getHistoryBarsSince', () => {
+    const DAY_MS = 24 * HOUR_MS;
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('counts the range in the same bars as getMaxHistoryBars', () => {
+        vi.useFakeTimers({ now: Date.UTC(2026, 0, 15) });
+        const weekAgo = Date.now() - 7 * DAY_MS;
+        // Stocks: 5 trading days of 6.5h sessions
+        expect(dataProviderService.getHistoryBarsSince('AAPL', '1h', weekAgo)).toBe(33);
+        expect(dataProviderService.getHistoryBarsSince('AAPL', '1m', weekAgo)).toBe(1950);
+        expect(dataProviderService.getHistoryBarsSince('AAPL', '1d', weekAgo)).toBe(5);
+        expect(dataProviderService.getHistoryBarsSince('EURUSD=X', '1h', weekAgo)).toBe(120);
+        expect(dataProviderService.getHistoryBarsSince('BTC-USD', '1h', weekAgo)).toBe(168);
+    });
+
+    it('fits ranges the provider serves into its history', () => {
+        // One day of 1m bars and ~150 days of 1h bars are within Yahoo's stock history
+        expect(dataProviderService.getHistoryBarsSince('AAPL', '1m', Date.now() - DAY_MS)).toBeLessThan(dataProviderService.getMaxHistoryBars('AAPL', '1m'));
+        expect(dataProviderService.getHistoryBarsSince('AAPL', '1h', Date.now() - 150 * DAY_MS)).toBeLessThan(dataProviderService.getMaxHistoryBars('AAPL', '1h'));
+    });
+});
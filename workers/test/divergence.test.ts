@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { createEngine, HOUR_MS } from './helpers';
+
+const engine = createEngine();
+
+/**
+ * 40 bars with rising highs / lows (no pivots) except the given pivot lows / highs,
+ * and an indicator series with the given values at those bars (50 elsewhere)
+ */
+function makeSeries(pivots: Array<{ index: number; low?: number; high?: number; value: number }>, length = 40) {
+    const candles = Array.from({ length }, (_, i) => ({
+        timestamp: i * HOUR_MS,
+        open: 105,
+        high: 110 + i * 0.01,
+        low: 100 + i * 0.01,
+        close: 105,
+        volume: 1000,
+    }));
+    const data = candles.map(() => ({ value: 50 }));
+    for (const pivot of pivots) {
+        if (pivot.low !== undefined) candles[pivot.index].low = pivot.low;
+        if (pivot.high !== undefined) candles[pivot.index].high = pivot.high;
+        data[pivot.index] = { value: pivot.value };
+    }
+    return { candles, data };
+}
+
+describe('detectDivergence', () => {
+    it('finds bullish divergence: price lower low, indicator higher low', () => {
+        const { candles, data } = makeSeries([{ index: 10, low: 90, value: 25 }, { index: 30, low: 85, value: 35 }]);
+        expect(engine.detectDivergence(candles, data)).toMatchObject({
+            type: 'bullish',
+            startTs: 10 * HOUR_MS,
+            endTs: 30 * HOUR_MS,
+            startPrice: 90,
+            endPrice: 85,
+            startValue: 25,
+            endValue: 35,
+        });
+    });
+
+    it('finds bearish divergence: price higher high, indicator lower high', () => {
+        const { candles, data } = makeSeries([{ index: 10, high: 120, value: 75 }, { index: 30, high: 125, value: 65 }]);
+        expect(engine.detectDivergence(candles, data)).toMatchObject({ type: 'bearish', startPrice: 120, endPrice: 125 });
+    });
+
+    it('ignores lows confirmed by both price and indicator', () => {
+        const { candles, data } = makeSeries([{ index: 10, low: 90, value: 35 }, { index: 30, low: 85, value: 25 }]);
+        expect(engine.detectDivergence(candles, data)).toBeNull();
+    });
+
+    it('needs pivotLookback bars after the latest pivot', () => {
+        const { candles, data } = makeSeries([{ index: 10, low: 90, value: 25 }, { index: 30, low: 85, value: 35 }], 35);
+        expect(engine.detectDivergence(candles, data)).toBeNull();
+        expect(engine.detectDivergence(candles, data, { pivotLookback: 4 })).toMatchObject({ type: 'bullish' });
+    });
+
+    it('respects the pivot distance limits', () => {
+        const { candles, data } = makeSeries([{ index: 10, low: 90, value: 25 }, { index: 30, low: 85, value: 35 }]);
+        expect(engine.detectDivergence(candles, data, { maxPivotDistance: 15 })).toBeNull();
+        expect(engine.detectDivergence(candles, data, { minPivotDistance: 25 })).toBeNull();
+    });
+
+    it('aligns a shorter indicator series with the end of the candles', () => {
+        const { candles, data } = makeSeries([{ index: 10, low: 90, value: 25 }, { index: 30, low: 85, value: 35 }]);
+        // Pivots are looked for from pivotLookback bars into the indicator series
+        expect(engine.detectDivergence(candles, data.slice(5))).toMatchObject({ type: 'bullish' });
+        expect(engine.detectDivergence(candles, data.slice(6))).toBeNull();
+    });
+});
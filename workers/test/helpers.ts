@@ -0,0 +1,119 @@
+import initSqlJs from 'sql.js';
+import worker from '../src/index';
+import { IndicatorEngine, type AlertRule } from '../src/rsi-engine';
+
+export const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * In-memory D1 on sql.js (SQLite compiled to wasm): prepare / bind / run / all / first and batch,
+ * so routes and engine queries run against real SQL (unknown columns, constraints) without the Workers runtime
+ */
+export async function createD1(): Promise<D1Database> {
+    const SQL = await initSqlJs();
+    const sqlite = new SQL.Database();
+
+    const query = (sql: string, values: any[]): Record<string, any>[] => {
+        const statement = sqlite.prepare(sql);
+        try {
+            statement.bind(values.map(value => typeof value === 'boolean' ? Number(value) : value));
+            const rows: Record<string, any>[] = [];
+            while (statement.step()) {
+                rows.push(statement.getAsObject());
+            }
+            return rows;
+        } finally {
+            statement.free();
+        }
+    };
+
+    const prepare = (sql: string, values: any[] = []): any => ({
+        bind: (...bound: any[]) => prepare(sql, bound),
+        all: async () => ({ results: query(sql, values), success: true, meta: {} }),
+        first: async (column?: string) => {
+            const row = query(sql, values)[0] ?? null;
+            return column !== undefined && row ? row[column] : row;
+        },
+        run: async () => {
+            query(sql, values);
+            const changes = sqlite.getRowsModified();
+            const lastRowId = sqlite.exec('SELECT last_insert_rowid()')[0].values[0][0];
+            return { results: [], success: true, meta: { changes, last_row_id: lastRowId } };
+        },
+    });
+
+    return {
+        prepare: (sql: string) => prepare(sql),
+        batch: async (statements: any[]) => {
+            const results = [];
+            for (const statement of statements) {
+                results.push(await statement.all());
+            }
+            return results;
+        },
+        exec: async (sql: string) => {
+            sqlite.exec(sql);
+            return { count: 0, duration: 0 };
+        },
+    } as unknown as D1Database;
+}
+
+/** Call a worker route with a JSON body; returns status and parsed JSON response */
+export async function callApi(db: D1Database, method: string, path: string, body?: any): Promise<{ status: number; body: any }> {
+    const request = new Request(`http://localhost${path}`, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const response = await worker.fetch!(request as any, { DB: db } as any, {} as any);
+    return { status: response.status, body: await response.json() };
+}
+
+/**
+ * Closed 1h candles with the given closes, the last one opened an hour before the current hour
+ * (open = previous close, high / low 0.5 around the body, volume 1000)
+ */
+export function makeCandles(closes: number[], lastOpenTs = Math.floor(Date.now() / HOUR_MS) * HOUR_MS - HOUR_MS): any[] {
+    return closes.map((close, i) => {
+        const open = i > 0 ? closes[i - 1] : close;
+        return {
+            timestamp: lastOpenTs - (closes.length - 1 - i) * HOUR_MS,
+            open,
+            high: Math.max(open, close) + 0.5,
+            low: Math.min(open, close) - 0.5,
+            close,
+            volume: 1000,
+        };
+    });
+}
+
+/** Deterministic zig-zag price path (sine waves plus drift) for indicator tests */
+export function wave(length: number, start = 100): number[] {
+    return Array.from({ length }, (_, i) => start + 10 * Math.sin(i / 6) + 4 * Math.sin(i / 2.3) + i * 0.05);
+}
+
+/**
+ * Engine with stubbed D1 and data provider: pure calculations don't touch them,
+ * tests that do pass what they need
+ */
+export function createEngine(db: any = {}, dataProviderService: any = {}): IndicatorEngine {
+    return new IndicatorEngine(db, dataProviderService);
+}
+
+/** Rule parsed from an alert_rule row (RSI 14 cross 30/70 on AAPL 1h unless overridden) */
+export function createRule(engine: IndicatorEngine, row: Record<string, any> = {}): AlertRule {
+    return engine.parseRuleRow({
+        id: 1,
+        user_id: 'user_1',
+        symbol: 'AAPL',
+        timeframe: '1h',
+        indicator: 'rsi',
+        period: 14,
+        levels: '[30,70]',
+        mode: 'cross',
+        hysteresis: 0.5,
+        cooldown_sec: 0,
+        repeatable: 1,
+        alert_on_close: 1,
+        ...row,
+    });
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest';
+import { getIndicator } from '../src/indicator-registry';
+import { getSeriesKey } from '../src/rsi-engine';
+import { createEngine, createRule, makeCandles, wave } from './helpers';
+
+const candles = makeCandles(wave(300));
+
+describe('incremental RSI', () => {
+    for (const params of [undefined, { smoothing: 'ema' }, { source: 'hlc3' }]) {
+        it(`seed + step matches the full calculation (${JSON.stringify(params ?? {})})`, () => {
+            const engine = createEngine();
+            const full = engine.calculateRsi(candles, 14, params);
+            let calc = engine.getRsiCalcState(candles.slice(0, 100), 14, params)!;
+            const stepped: number[] = [];
+            for (const candle of candles.slice(100)) {
+                const next = engine.stepRsi(calc, candle, 14, params);
+                calc = next.calc;
+                stepped.push(next.point.value);
+            }
+            full.slice(-stepped.length).forEach((value, i) => expect(stepped[i]).toBeCloseTo(value, 9));
+        });
+    }
+
+    it('has no state before the first RSI value', () => {
+        const engine = createEngine();
+        expect(engine.calculateRsi(candles.slice(0, 15), 14)).toEqual([]);
+        expect(engine.getRsiCalcState(candles.slice(0, 15), 14)).toBeNull();
+        expect(engine.calculateRsi(candles.slice(0, 16), 14)).toHaveLength(1);
+        expect(engine.getRsiCalcState(candles.slice(0, 16), 14)).not.toBeNull();
+    });
+});
+
+describe('incremental MACD', () => {
+    it('seed + step matches the full calculation', () => {
+        const engine = createEngine();
+        const full = engine.calculateMacd(candles);
+        let calc = engine.getMacdCalcState(candles.slice(0, 80))!;
+        const stepped: any[] = [];
+        for (const candle of candles.slice(80)) {
+            const next = engine.stepMacd(calc, candle);
+            calc = next.calc;
+            stepped.push(next.point);
+        }
+        full.slice(-stepped.length).forEach((point, i) => {
+            expect(stepped[i].value).toBeCloseTo(point.value, 9);
+            expect(stepped[i].state.signal).toBeCloseTo(point.state.signal, 9);
+        });
+    });
+
+    for (const params of [undefined, { fastPeriod: 30, slowPeriod: 10, signalPeriod: 5 }]) {
+        it(`full and incremental paths start at the same bar (${JSON.stringify(params ?? {})})`, () => {
+            const engine = createEngine();
+            const minBars = engine.getMacdMinBars(params);
+            expect(engine.calculateMacd(candles.slice(0, minBars - 1), params)).toEqual([]);
+            expect(engine.getMacdCalcState(candles.slice(0, minBars - 1), params)).toBeNull();
+            expect(engine.calculateMacd(candles.slice(0, minBars), params)).toHaveLength(1);
+            expect(engine.getMacdCalcState(candles.slice(0, minBars), params)).not.toBeNull();
+        });
+    }
+
+    it('warms up one bar past the first value (for crossings)', () => {
+        const engine = createEngine();
+        const params = { fastPeriod: 30, slowPeriod: 10, signalPeriod: 5 };
+        expect(getIndicator('macd')!.warmupBars(engine, 0, params, 0)).toBe(engine.getMacdMinBars(params) + 1);
+    });
+});
+
+describe('calculateRuleIndicator', () => {
+    const stateWith = (incremental: any) => ({ rule_id: 1, indicator_state: JSON.stringify({ incremental }) });
+
+    it('advances stored state across runs', () => {
+        const engine = createEngine();
+        const rule = createRule(engine);
+        const first = engine.calculateRuleIndicator(rule, candles.slice(0, 200), { rule_id: 1 });
+        expect(engine.calculationStats.recomputed).toBe(1);
+
+        const next = createEngine();
+        const window = candles.slice(100, 210);
+        const result = next.calculateRuleIndicator(rule, window, stateWith(first.incremental));
+        expect(next.calculationStats.incremental).toBe(1);
+        // Stored state carries history from before the window: same as the full calculation over all candles
+        const full = next.calculateRsi(candles.slice(0, 210), 14);
+        expect(result.data[result.data.length - 1].value).toBeCloseTo(full[full.length - 1], 9);
+    });
+
+    it('recomputes when the stored bar was revised', () => {
+        const engine = createEngine();
+        const rule = createRule(engine);
+        const first = engine.calculateRuleIndicator(rule, candles.slice(0, 200), { rule_id: 1 });
+        const revised = candles.slice(0, 210).map((candle, i) => i === 199 ? { ...candle, close: candle.close + 1 } : candle);
+
+        const next = createEngine();
+        next.calculateRuleIndicator(rule, revised, stateWith(first.incremental));
+        expect(next.calculationStats).toMatchObject({ incremental: 0, recomputed: 1 });
+    });
+
+    it('shares one result between rules with the same indicator, period and params', () => {
+        const seeded = createEngine().calculateRuleIndicator(createRule(createEngine()), candles.slice(0, 150), { rule_id: 1 });
+        const engine = createEngine();
+        const window = candles.slice(100);
+        const withState = engine.calculateRuleIndicator(createRule(engine, { id: 1 }), window, stateWith(seeded.incremental));
+        const fresh = engine.calculateRuleIndicator(createRule(engine, { id: 2 }), window, { rule_id: 2 });
+        expect(fresh).toBe(withState);
+        expect(engine.calculationStats).toMatchObject({ incremental: 1, recomputed: 0, reused: 1 });
+
+        const otherPeriod = engine.calculateRuleIndicator(createRule(engine, { id: 3, period: 7 }), window, { rule_id: 3 });
+        expect(otherPeriod).not.toBe(withState);
+    });
+
+    it('stays within 0.1 RSI points of the full recompute over the cron window', () => {
+        // Cron: candle window sliding one bar per run, state advanced each run. The recompute seeds at the
+        // window start, the stored state from all earlier history; the difference decays by 13/14 per bar
+        const rule = createRule(createEngine());
+        const windowSize = createEngine().getCandleLimit('1h', 14);
+        let state: any = { rule_id: 1 };
+        let maxDrift = 0;
+        for (let end = windowSize; end <= candles.length; end++) {
+            const engine = createEngine();
+            const window = candles.slice(end - windowSize, end);
+            const result = engine.calculateRuleIndicator(rule, window, state);
+            state = stateWith(result.incremental);
+            const recomputed = engine.calculateRsi(window, 14);
+            maxDrift = Math.max(maxDrift, Math.abs(result.data[result.data.length - 1].value - recomputed[recomputed.length - 1]));
+        }
+        expect(maxDrift).toBeGreaterThan(0);
+        expect(maxDrift).toBeLessThan(0.1);
+    });
+});
+
+describe('getSeriesKey', () => {
+    it('does not depend on the order params were sent in', () => {
+        expect(getSeriesKey('rsi', 14, { smoothing: 'ema', source: 'hlc3' })).toBe(getSeriesKey('rsi', 14, { source: 'hlc3', smoothing: 'ema' }));
+        expect(getSeriesKey('ma', 1, { slow: { period: 200, type: 'sma' }, fast: { type: 'ema', period: 9 } }))
+            .toBe(getSeriesKey('ma', 1, { fast: { period: 9, type: 'ema' }, slow: { type: 'sma', period: 200 } }));
+    });
+
+    it('leaves out the VWAP exchange timezone and empty params', () => {
+        expect(getSeriesKey('vwap', 1, { timezone: 'America/New_York' })).toBe('vwap:1');
+        expect(getSeriesKey('rsi', 14)).toBe('rsi:14');
+    });
+});
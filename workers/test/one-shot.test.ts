@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FcmService } from '../src/fcm-service';
+import type { AlertTrigger } from '../src/rsi-engine';
+import { HOUR_MS, callApi, createD1, createEngine, createRule } from './helpers';
+
+let db: D1Database;
+
+const makeTrigger = (overrides: Partial<AlertTrigger> = {}): AlertTrigger => ({
+    ruleId: 1,
+    userId: 'user_1',
+    symbol: 'AAPL',
+    indicatorValue: 29,
+    rsi: 29,
+    indicator: 'rsi',
+    timeframe: '1h',
+    level: 30,
+    type: 'cross_down',
+    timestamp: Date.now(),
+    message: 'RSI crossed below 30',
+    ...overrides,
+});
+
+beforeEach(async () => {
+    db = await createD1();
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+describe('one-shot rules', () => {
+    it('mark their triggers without deactivating the rule when they fire', async () => {
+        const created = await callApi(db, 'POST', '/alerts/create', {
+            userId: 'user_1', symbol: 'AAPL', timeframe: '1h', indicator: 'rsi', levels: [30, 70], repeatable: false,
+        });
+        const engine = createEngine(db);
+        const rule = createRule(engine, { id: created.body.id, repeatable: 0 });
+        const candles = [{ timestamp: Date.now() - HOUR_MS }];
+
+        const fired = await engine.fireTriggers(rule, { rule_id: rule.id }, candles, [makeTrigger({ ruleId: rule.id })], {}, 29);
+        expect(fired.map(trigger => trigger.oneShot)).toEqual([true]);
+
+        const { body } = await callApi(db, 'GET', '/alerts/user_1');
+        expect(body.rules[0].status).toBe('active');
+    });
+
+    it('are reported as triggered once deactivated after delivery', async () => {
+        const created = await callApi(db, 'POST', '/alerts/create', {
+            userId: 'user_1', symbol: 'AAPL', timeframe: '1h', indicator: 'rsi', levels: [30, 70], repeatable: false,
+        });
+
+        await createEngine(db).deactivateRule(created.body.id);
+        const { body } = await callApi(db, 'GET', '/alerts/user_1');
+        expect(body.rules[0]).toMatchObject({ active: 0, status: 'triggered' });
+    });
+
+    it('leave repeatable rule triggers unmarked', async () => {
+        const engine = createEngine({ prepare: () => ({ bind: () => ({ run: async () => ({}) }) }) });
+        const fired = await engine.fireTriggers(createRule(engine), { rule_id: 1 }, [{ timestamp: 0 }], [makeTrigger()], {}, 29);
+        expect(fired[0].oneShot).toBeUndefined();
+    });
+});
+
+describe('FcmService.sendAlert delivery result', () => {
+    const createFcm = async () => {
+        await callApi(db, 'POST', '/alerts/create', { userId: 'user_1', symbol: 'AAPL', timeframe: '1h', levels: [30, 70] });
+        const fcm = new FcmService('{}', 'project', undefined, db);
+        vi.spyOn(fcm as any, 'getAccessToken').mockResolvedValue('access_token');
+        return fcm;
+    };
+    const addDevice = () => db.prepare(`
+      INSERT INTO device (id, user_id, fcm_token, platform, created_at) VALUES ('d1', 'user_1', 'token_1', 'android', 0)
+    `).run();
+
+    it('is true when FCM accepted the message', async () => {
+        const fcm = await createFcm();
+        await addDevice();
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('{}', { status: 200 })));
+        expect(await fcm.sendAlert(makeTrigger())).toBe(true);
+    });
+
+    it('is false when FCM rejected the message', async () => {
+        const fcm = await createFcm();
+        await addDevice();
+        vi.stubGlobal('fetch', vi.fn(async () => new Response('unavailable', { status: 503 })));
+        expect(await fcm.sendAlert(makeTrigger())).toBe(false);
+    });
+
+    it('is false without devices or for stale triggers', async () => {
+        const fcm = await createFcm();
+        expect(await fcm.sendAlert(makeTrigger())).toBe(false);
+
+        await addDevice();
+        expect(await fcm.sendAlert(makeTrigger({ timestamp: Date.now() - HOUR_MS }))).toBe(false);
+    });
+});
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import worker from '../src/index';
+import { HOUR_MS, callApi, createD1 } from './helpers';
+
+let db: D1Database;
+
+const runCron = () => worker.scheduled!({} as any, { DB: db } as any, {} as any);
+
+/** indicator_data row on 1m (1 day retention), `age` ms before now */
+const insertIndicatorData = (age: number) => db.prepare(`
+  INSERT INTO indicator_data (symbol, timeframe, indicator, timestamp, value, close) VALUES ('AAPL', '1m', 'rsi', ?, 50, 100)
+`).bind(Date.now() - age).run();
+
+const countIndicatorData = async () => (await db.prepare(`SELECT COUNT(*) AS count FROM indicator_data`).first<{ count: number }>())!.count;
+
+beforeEach(async () => {
+    db = await createD1();
+    // Creates the tables; the rule is paused so the cron finds no active rules
+    const created = await callApi(db, 'POST', '/alerts/create', { userId: 'user_1', symbol: 'AAPL', timeframe: '1h', levels: [30, 70] });
+    await callApi(db, 'PUT', `/alerts/${created.body.id}`, { userId: 'user_1', active: false });
+    await insertIndicatorData(2 * 24 * HOUR_MS);
+    await insertIndicatorData(HOUR_MS);
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('scheduled hourly maintenance', () => {
+    it('runs at the top of the hour without active rules', async () => {
+        vi.useFakeTimers({ toFake: ['Date'], now: Math.floor(Date.now() / HOUR_MS) * HOUR_MS });
+        await runCron();
+        expect(await countIndicatorData()).toBe(1);
+    });
+
+    it('runs when the alert check is skipped for missing FCM configuration', async () => {
+        await callApi(db, 'POST', '/alerts/create', { userId: 'user_1', symbol: 'AAPL', timeframe: '1h', levels: [30, 70] });
+        vi.useFakeTimers({ toFake: ['Date'], now: Math.floor(Date.now() / HOUR_MS) * HOUR_MS });
+        await runCron();
+        expect(await countIndicatorData()).toBe(1);
+    });
+
+    it('does not run during the hour', async () => {
+        vi.useFakeTimers({ toFake: ['Date'], now: Math.floor(Date.now() / HOUR_MS) * HOUR_MS + 5 * 60 * 1000 });
+        await runCron();
+        expect(await countIndicatorData()).toBe(2);
+    });
+});